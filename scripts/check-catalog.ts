@@ -0,0 +1,197 @@
+/**
+ * Check documents.json against the files it lists:
+ *
+ *   npm run check:catalog                      # the local store in public/
+ *   npm run check:catalog -- path/to/store     # another local store
+ *   npm run check:catalog -- --origin <url>    # an http store, as DOCUMENT_SOURCE "http" reads it
+ *
+ * Files are read the way the worker reads them for packets, so a clean run
+ * means every catalog document can be merged. The local store is checked
+ * without any network access. Exits with status 1 when a problem is found;
+ * warnings, like an encrypted file, are reported but don't fail the check.
+ */
+import { existsSync } from 'node:fs'
+import { readFile } from 'node:fs/promises'
+import { basename, join, resolve } from 'node:path'
+import { catalogSchema, ENCRYPTED_DOCUMENT_WARNING, type CatalogEntry } from '../shared/catalog'
+import { PDFChecker } from '../shared/pdfChecker'
+import { getFieldErrors } from '../shared/schema'
+import { CATALOG_PATH, DocumentCatalog } from '../worker/src/catalog'
+import { getFetchLimits, HttpSource, toStorePath, type DocumentSource, type FetchLimits } from '../worker/src/sources'
+import type { Env } from '../worker/src/types'
+
+// Folder catalog PDFs live in, as the catalog admin stores them
+const DOCUMENT_FOLDER = 'PDFS'
+
+// A document store on disk, laid out like the worker's stores
+class DirectorySource implements DocumentSource {
+  readonly name = 'local'
+
+  constructor(readonly root: string) {}
+
+  async get(path: string): Promise<ArrayBuffer | null> {
+    try {
+      const file = await readFile(join(this.root, path))
+      return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength)
+    } catch {
+      return null
+    }
+  }
+}
+
+interface EntryReport {
+  id: string
+  errors: string[]
+  warnings: string[]
+  notes: string[]
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+  const originIndex = args.indexOf('--origin')
+  const origin = originIndex >= 0 ? args[originIndex + 1] : undefined
+  if (originIndex >= 0 && !origin) {
+    console.error('Usage: check-catalog [store directory] [--origin <url>]')
+    process.exit(2)
+  }
+
+  // Same allow-list and limits the worker applies
+  const env = {
+    DOCUMENT_ORIGIN: origin,
+    ALLOWED_DOCUMENT_ORIGINS: process.env.ALLOWED_DOCUMENT_ORIGINS,
+    MAX_DOCUMENT_BYTES: process.env.MAX_DOCUMENT_BYTES,
+    DOCUMENT_FETCH_TIMEOUT_MS: process.env.DOCUMENT_FETCH_TIMEOUT_MS,
+  } as Env
+  const limits = getFetchLimits(env)
+  const local = origin ? undefined : new DirectorySource(resolve(args.find(arg => !arg.startsWith('--')) || 'public'))
+  const source: DocumentSource = local || new HttpSource(origin!, limits)
+
+  const manifest = await source.get(CATALOG_PATH)
+  if (!manifest) {
+    console.error(`No ${CATALOG_PATH} in ${local ? local.root : origin}`)
+    process.exit(1)
+  }
+
+  let entries: CatalogEntry[]
+  try {
+    entries = JSON.parse(new TextDecoder().decode(manifest))
+  } catch (error) {
+    console.error(`${CATALOG_PATH} is not valid JSON: ${error instanceof Error ? error.message : error}`)
+    process.exit(1)
+  }
+  if (!Array.isArray(entries)) {
+    console.error(`${CATALOG_PATH} must be an array of entries`)
+    process.exit(1)
+  }
+
+  const reports: EntryReport[] = entries.map((entry, index) => ({
+    id: typeof entry?.id === 'string' ? entry.id : `#${index + 1}`,
+    errors: [],
+    warnings: [],
+    notes: [],
+  }))
+
+  // Shape, duplicate ids and unknown supersedes ids, filed under the entry they belong to
+  const parsed = catalogSchema.safeParse(entries)
+  if (!parsed.success) {
+    Object.entries(getFieldErrors(parsed.error)).forEach(([field, messages]) => {
+      const [index, ...path] = field.split('.')
+      const report = reports[Number(index)]
+      messages.forEach(message => report.errors.push(path.length > 0 ? `${path.join('.')}: ${message}` : message))
+    })
+  }
+
+  // The schema skips this check when any entry is malformed
+  const firstIndex = new Map<string, number>()
+  reports.forEach((report, index) => {
+    const first = firstIndex.get(report.id)
+    if (first === undefined) {
+      firstIndex.set(report.id, index)
+    } else if (!report.errors.some(error => error.startsWith('id: Duplicate id'))) {
+      report.errors.push(`id: Duplicate id, also used by entry ${first + 1}`)
+    }
+  })
+
+  // One at a time, like the admin check
+  for (const [index, entry] of entries.entries()) {
+    await checkEntry(entry, reports[index], source, limits, local)
+  }
+
+  printReport(reports, local ? local.root : origin!)
+  process.exit(reports.some(report => report.errors.length > 0) ? 1 : 0)
+}
+
+async function checkEntry(entry: CatalogEntry, report: EntryReport, source: DocumentSource, limits: FetchLimits, local?: DirectorySource) {
+  if (typeof entry?.url !== 'string') return
+
+  const isAbsolute = /^https?:\/\//.test(entry.url)
+  if (isAbsolute) {
+    if (!limits.allowedOrigins.includes(new URL(entry.url).origin)) {
+      report.errors.push(`${entry.url} is not on an allowed origin (ALLOWED_DOCUMENT_ORIGINS), so the worker won't fetch it`)
+      return
+    }
+    if (local) {
+      report.notes.push(`Not checked: ${entry.url} is outside the local store`)
+      return
+    }
+  } else {
+    const storePath = toStorePath(entry.url)
+    const urlFilename = basename(storePath)
+    if (entry.filename !== urlFilename) {
+      report.errors.push(`filename "${entry.filename}" does not match the URL's "${urlFilename}"`)
+    }
+    if (local && !existsSync(join(local.root, DOCUMENT_FOLDER, entry.filename))) {
+      report.errors.push(`${DOCUMENT_FOLDER}/${entry.filename} does not exist`)
+    }
+  }
+
+  let bytes: ArrayBuffer
+  try {
+    // A catalog of just this entry, so duplicate ids still read their own file
+    bytes = await DocumentCatalog.fromEntries(source, [entry], limits).fetch(entry.id)
+  } catch (error) {
+    report.errors.push(error instanceof Error ? error.message : 'Unknown error')
+    return
+  }
+
+  if (entry.size !== bytes.byteLength) {
+    report.errors.push(`size is recorded as ${entry.size} but the file is ${bytes.byteLength} bytes`)
+  }
+
+  const check = await PDFChecker.checkBytes(bytes, entry.filename)
+  if (check.isEncrypted) {
+    report.warnings.push(ENCRYPTED_DOCUMENT_WARNING)
+  } else if (!check.isAccessible) {
+    report.errors.push(`PDF could not be loaded: ${check.error}`)
+  }
+  if (check.pageCount !== undefined && entry.pageCount !== undefined && entry.pageCount !== check.pageCount) {
+    report.errors.push(`pageCount is recorded as ${entry.pageCount} but the file has ${check.pageCount} pages`)
+  }
+  if (check.pageCount !== undefined) {
+    report.notes.unshift(`${check.pageCount} page${check.pageCount !== 1 ? 's' : ''}, ${bytes.byteLength} bytes`)
+  }
+}
+
+function printReport(reports: EntryReport[], store: string) {
+  console.log(`Checking ${reports.length} catalog entries in ${store}\n`)
+  for (const report of reports) {
+    console.log(`${report.errors.length > 0 ? '✗' : report.warnings.length > 0 ? '!' : '✓'} ${report.id}`)
+    report.errors.forEach(error => console.log(`    error: ${error}`))
+    report.warnings.forEach(warning => console.log(`    warning: ${warning}`))
+    report.notes.forEach(note => console.log(`    ${note}`))
+  }
+
+  const failed = reports.filter(report => report.errors.length > 0).length
+  const warned = reports.filter(report => report.errors.length === 0 && report.warnings.length > 0).length
+  console.log(failed > 0
+    ? `\n${failed} of ${reports.length} entries have problems`
+    : `\nAll ${reports.length} entries are valid`)
+  if (warned > 0) {
+    console.log(`${warned} ${warned !== 1 ? 'entries have' : 'entry has'} warnings`)
+  }
+}
+
+main().catch(error => {
+  console.error('Catalog check failed:', error)
+  process.exit(1)
+})
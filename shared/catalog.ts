@@ -0,0 +1,144 @@
+import { z } from 'zod'
+
+// Version metadata carried by catalog entries in documents.json. Older
+// versions stay in the catalog so saved packets still resolve; the entry
+// that replaces them lists their ids in `supersedes`.
+export interface DocumentVersionInfo {
+  id: string;
+  version?: string;
+  // ISO dates (YYYY-MM-DD)
+  effectiveDate?: string;
+  expires?: string;
+  supersedes?: string[];
+}
+
+/**
+ * Map each superseded document id to the id of the entry that replaces it
+ */
+export function getSupersededBy(entries: DocumentVersionInfo[]): Map<string, string> {
+  const supersededBy = new Map<string, string>()
+  for (const entry of entries) {
+    for (const oldId of entry.supersedes || []) {
+      supersededBy.set(oldId, entry.id)
+    }
+  }
+  return supersededBy
+}
+
+/**
+ * The newest version of a document, following the supersedes chain. A
+ * document that is not superseded is its own latest version.
+ */
+export function getLatestVersionId(id: string, supersededBy: Map<string, string>): string {
+  const seen = new Set([id])
+  let latest = id
+  let next = supersededBy.get(latest)
+  // A cycle in the catalog stops at the last id not yet visited
+  while (next && !seen.has(next)) {
+    seen.add(next)
+    latest = next
+    next = supersededBy.get(latest)
+  }
+  return latest
+}
+
+export function isExpired(entry: DocumentVersionInfo, today: Date = new Date()): boolean {
+  return !!entry.expires && entry.expires < today.toISOString().slice(0, 10)
+}
+
+/**
+ * Warnings for merging a catalog document: superseded by a newer entry, or
+ * past its expiry date. `entries` is the whole catalog, by id.
+ */
+export function getVersionWarnings(
+  id: string,
+  entries: Map<string, DocumentVersionInfo & { name: string }>,
+  supersededBy: Map<string, string>
+): string[] {
+  const entry = entries.get(id)
+  if (!entry) return []
+
+  const warnings: string[] = []
+  const latest = entries.get(getLatestVersionId(id, supersededBy))
+  if (latest && latest.id !== id) {
+    warnings.push(`Superseded by ${latest.name}${latest.version ? ` version ${latest.version}` : ''} (${latest.id})`)
+  }
+  if (isExpired(entry)) {
+    warnings.push(`Expired on ${entry.expires}`)
+  }
+  return warnings
+}
+
+// e.g. "1.2 (2025-01-14)"; empty when the entry has no version metadata
+export function formatDocumentVersion(entry: DocumentVersionInfo): string {
+  if (entry.version && entry.effectiveDate) {
+    return `${entry.version} (${entry.effectiveDate})`
+  }
+  return entry.version || entry.effectiveDate || ''
+}
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD')
+
+// One entry of documents.json, as edited in the catalog admin
+export const catalogEntrySchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Use lowercase letters, digits and dashes'),
+  name: z.string().trim().min(1, 'Name is required'),
+  description: z.string(),
+  filename: z.string().min(1),
+  // Store path such as "/PDFS/File%20Name.pdf", or an absolute URL on an allowed origin
+  url: z.string().min(1),
+  size: z.number().int().nonnegative(),
+  pageCount: z.number().int().positive().optional(),
+  version: z.string().optional(),
+  effectiveDate: isoDateSchema.optional(),
+  expires: isoDateSchema.optional(),
+  supersedes: z.array(z.string()).optional(),
+  type: z.string().trim().min(1, 'Type is required'),
+  required: z.boolean(),
+  products: z.array(z.string().trim().min(1)),
+})
+
+export const catalogSchema = z.array(catalogEntrySchema).superRefine((entries, ctx) => {
+  const ids = new Set<string>()
+  entries.forEach((entry, index) => {
+    if (ids.has(entry.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'id'], message: `Duplicate id: ${entry.id}` })
+    }
+    ids.add(entry.id)
+  })
+  entries.forEach((entry, index) => {
+    entry.supersedes?.forEach((oldId, supersedesIndex) => {
+      if (!ids.has(oldId)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'supersedes', supersedesIndex], message: `Unknown document id: ${oldId}` })
+      }
+    })
+  })
+})
+
+export type CatalogEntry = z.infer<typeof catalogEntrySchema>
+
+// Packets can't read encrypted files, so they put an error page in their place
+export const ENCRYPTED_DOCUMENT_WARNING = 'PDF is encrypted, so packets will show an error page in its place'
+
+// Result of checking that one catalog entry's file resolves and loads
+export interface CatalogCheckResult {
+  id: string;
+  ok: boolean;
+  // Measured from the file, so published entries never carry stale values
+  size?: number;
+  pageCount?: number;
+  encrypted?: boolean;
+  error?: string;
+  // A problem that doesn't stop the file loading, e.g. encryption
+  warning?: string;
+}
+
+// A PDF stored by the catalog admin, ready to be referenced by an entry
+export interface StoredCatalogFile {
+  filename: string;
+  url: string;
+  size: number;
+  pageCount?: number;
+  title?: string;
+  encrypted: boolean;
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import registry from '../public/cover-templates.json'
+import {
+  formatCoverDate,
+  parseCoverTemplates,
+  resolveCoverField,
+  selectCoverTemplate,
+  type CoverFieldValues,
+  type CoverTemplate,
+} from './coverTemplates'
+
+const values: CoverFieldValues = {
+  projectName: 'Harbor View',
+  submittedTo: 'Acme GC',
+  preparedBy: 'J. Doe',
+  date: '2026-03-07',
+  projectNumber: 'P-1042',
+  emailAddress: 'jdoe@example.com',
+  phoneNumber: '555-0100',
+  product: '1-in (25mm)',
+  status: { forReview: true, forApproval: false, forRecord: false, forInformationOnly: false },
+  submittalType: {
+    tds: true,
+    threePartSpecs: false,
+    testReportIccEsr5194: false,
+    testReportIccEsl1645: false,
+    fireAssembly: false,
+    fireAssembly01: false,
+    fireAssembly02: false,
+    fireAssembly03: false,
+    msds: false,
+    leedGuide: false,
+    installationGuide: false,
+    warranty: false,
+    samples: false,
+    other: true,
+  },
+  submittal: { id: '06 16 26-003.1', specSection: '06 16 26' },
+}
+
+function template(id: string, products: string[], fields: unknown[] = []): unknown {
+  return { id, name: id, path: `PDF-TEMPLATE/${id}.pdf`, products, fields }
+}
+
+describe('resolveCoverField', () => {
+  it('fills text placeholders, including nested and submittal paths', () => {
+    expect(resolveCoverField({ field: 'f', type: 'text', value: '{phoneNumber} / {emailAddress}' }, values))
+      .toBe('555-0100 / jdoe@example.com')
+    expect(resolveCoverField({ field: 'f', type: 'text', value: '{submittal.id}' }, values)).toBe('06 16 26-003.1')
+  })
+
+  it('leaves missing values empty', () => {
+    expect(resolveCoverField({ field: 'f', type: 'text', value: '{submittal.id}' }, { ...values, submittal: undefined })).toBe('')
+    expect(resolveCoverField({ field: 'f', type: 'text', value: 'Other: {submittalType.otherText}' }, values)).toBe('Other: ')
+  })
+
+  it('checks boxes for true values, or for values equal to `equals`', () => {
+    expect(resolveCoverField({ field: 'f', type: 'checkbox', path: 'status.forReview' }, values)).toBe(true)
+    expect(resolveCoverField({ field: 'f', type: 'checkbox', path: 'status.forRecord' }, values)).toBe(false)
+    expect(resolveCoverField({ field: 'f', type: 'checkbox', path: 'product', equals: '1-in (25mm)' }, values)).toBe(true)
+    expect(resolveCoverField({ field: 'f', type: 'checkbox', path: 'product', equals: '3/4-in (20mm)' }, values)).toBe(false)
+  })
+
+  it('formats dates', () => {
+    expect(resolveCoverField({ field: 'f', type: 'date', path: 'date', format: 'MM/DD/YYYY' }, values)).toBe('03/07/2026')
+  })
+})
+
+describe('formatCoverDate', () => {
+  it('writes every token', () => {
+    expect(formatCoverDate('2026-03-07', 'MMMM D, YYYY')).toBe('March 7, 2026')
+    expect(formatCoverDate('2026-03-07', 'DD MMM YY')).toBe('07 Mar 26')
+    expect(formatCoverDate('2026-11-30', 'M/D/YYYY')).toBe('11/30/2026')
+  })
+
+  it('returns dates that are not YYYY-MM-DD unchanged', () => {
+    expect(formatCoverDate('3/7/2026', 'MMMM D, YYYY')).toBe('3/7/2026')
+  })
+})
+
+describe('parseCoverTemplates', () => {
+  it('accepts the bundled registry, which maps the submittal number', () => {
+    const [floorPanels] = parseCoverTemplates(registry, 'cover-templates.json')
+    expect(floorPanels.fields).toContainEqual({ field: 'Company 9', type: 'text', value: '{submittal.id}' })
+  })
+
+  it('rejects unknown project fields', () => {
+    expect(() => parseCoverTemplates([template('a', [], [{ field: 'f', type: 'text', value: '{projectCode}' }])], 'test.json'))
+      .toThrow('Unknown project field: projectCode')
+    expect(() => parseCoverTemplates([template('a', [], [{ field: 'f', type: 'checkbox', path: 'status.pending' }])], 'test.json'))
+      .toThrow('Unknown project field: status.pending')
+  })
+
+  it('rejects duplicate ids and fields mapped twice', () => {
+    expect(() => parseCoverTemplates([template('a', []), template('a', [])], 'test.json')).toThrow('Duplicate id: a')
+
+    const twice = [{ field: 'f', type: 'text', value: '' }, { field: 'f', type: 'checkbox', path: 'status.forReview' }]
+    expect(() => parseCoverTemplates([template('a', [], twice)], 'test.json')).toThrow('f is mapped twice')
+  })
+})
+
+describe('selectCoverTemplate', () => {
+  const templates = parseCoverTemplates([template('floor', ['3/4-in (20mm)']), template('wall', ['1-in (25mm)'])], 'test.json')
+  const idOf = (selected: CoverTemplate | undefined) => selected?.id
+
+  it('prefers the template the request names', () => {
+    expect(idOf(selectCoverTemplate(templates, 'wall', '3/4-in (20mm)'))).toBe('wall')
+  })
+
+  it('falls back to the product, then to the first template', () => {
+    expect(idOf(selectCoverTemplate(templates, undefined, '1-in (25mm)'))).toBe('wall')
+    expect(idOf(selectCoverTemplate(templates, 'missing', '1-1/8-in (28mm)'))).toBe('floor')
+    expect(selectCoverTemplate([], undefined, '1-in (25mm)')).toBeUndefined()
+  })
+})
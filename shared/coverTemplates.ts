@@ -0,0 +1,202 @@
+import { z } from 'zod'
+import { getFieldErrors, projectDataSchema, type ProjectData } from './schema'
+
+// Cover template registry: which submittal form PDF a packet opens with, and
+// how project details fill its AcroForm fields. The worker and the app both
+// read it from the document store, next to documents.json.
+
+export const COVER_TEMPLATES_PATH = 'cover-templates.json'
+
+// Every leaf of a Zod object, as dotted paths such as "status.forReview"
+function schemaPaths(schema: z.ZodTypeAny, prefix = ''): string[] {
+  const inner = schema instanceof z.ZodOptional ? schema.unwrap() : schema
+  if (inner instanceof z.ZodObject) {
+    return Object.entries(inner.shape as z.ZodRawShape).flatMap(([key, value]) => schemaPaths(value, `${prefix}${key}.`))
+  }
+  return [prefix.slice(0, -1)]
+}
+
+// Values a mapping can read: the project data, plus the submittal number when the packet has one
+export const COVER_FIELD_PATHS = [...schemaPaths(projectDataSchema), 'submittal.id', 'submittal.specSection']
+
+// "{phoneNumber} / {emailAddress}"
+const PLACEHOLDER = /\{([^{}]+)\}/g
+
+const fieldPathSchema = z.string().refine(
+  path => COVER_FIELD_PATHS.includes(path),
+  path => ({ message: `Unknown project field: ${path}` })
+)
+
+const fieldNameSchema = z.string().min(1, 'Form field name is required')
+
+export const coverFieldMappingSchema = z.discriminatedUnion('type', [
+  // `value` is text with {path} placeholders
+  z.object({
+    field: fieldNameSchema,
+    type: z.literal('text'),
+    value: z.string().superRefine((value, ctx) => {
+      for (const [, path] of value.matchAll(PLACEHOLDER)) {
+        if (!COVER_FIELD_PATHS.includes(path)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown project field: ${path}` })
+        }
+      }
+    }),
+  }),
+  // YYYY-MM-DD dates written in `format`; see formatCoverDate
+  z.object({
+    field: fieldNameSchema,
+    type: z.literal('date'),
+    path: fieldPathSchema,
+    format: z.string().min(1),
+  }),
+  // Checked when the value is true, or equals `equals` when that is given
+  z.object({
+    field: fieldNameSchema,
+    type: z.literal('checkbox'),
+    path: fieldPathSchema,
+    equals: z.string().optional(),
+  }),
+])
+
+// Text for the cover page drawn when the template PDF can't be used
+export const coverTextSchema = z.object({
+  title: z.array(z.string()).max(3),
+  // Company name first, then address and contact lines
+  footer: z.array(z.string()).max(5),
+  version: z.string().optional(),
+})
+
+export const coverTemplateSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Use lowercase letters, digits and dashes'),
+  // Product line the form is for, shown when choosing a cover
+  name: z.string().trim().min(1, 'Name is required'),
+  // Store path of the template PDF, e.g. "PDF-TEMPLATE/Submittal Form_Floor Panels.pdf"
+  path: z.string().min(1),
+  // Products, as listed on catalog entries, the form is picked for when the request doesn't name one
+  products: z.array(z.string().trim().min(1)),
+  // Spec section printed on a generated cover when the packet has no submittal number
+  specSection: z.string().regex(/^\d{2} \d{2} \d{2}$/, 'Spec section must look like "06 16 26"').optional(),
+  cover: coverTextSchema.optional(),
+  fields: z.array(coverFieldMappingSchema),
+})
+
+export const coverTemplateRegistrySchema = z.array(coverTemplateSchema).superRefine((templates, ctx) => {
+  const ids = new Set<string>()
+  templates.forEach((template, index) => {
+    if (ids.has(template.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'id'], message: `Duplicate id: ${template.id}` })
+    }
+    ids.add(template.id)
+
+    const fields = new Set<string>()
+    template.fields.forEach((mapping, fieldIndex) => {
+      if (fields.has(mapping.field)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'fields', fieldIndex, 'field'], message: `${mapping.field} is mapped twice` })
+      }
+      fields.add(mapping.field)
+    })
+  })
+})
+
+export type CoverFieldMapping = z.infer<typeof coverFieldMappingSchema>
+export type CoverText = z.infer<typeof coverTextSchema>
+export type CoverTemplate = z.infer<typeof coverTemplateSchema>
+
+export type CoverFieldValues = ProjectData & {
+  submittal?: { id: string; specSection: string };
+}
+
+// A template's AcroForm field, as listed by the diagnostic endpoint
+export interface CoverFormField {
+  name: string;
+  // pdf-lib field kind: text, checkbox, radio, dropdown, option-list, button or signature
+  kind: string;
+  // 1-based pages the field's widgets are on
+  pages: number[];
+  mapping?: CoverFieldMapping;
+}
+
+// How well a template's mapping covers the fields in its PDF
+export interface CoverFieldReport {
+  template: Pick<CoverTemplate, 'id' | 'name' | 'path'>;
+  fields: CoverFormField[];
+  // Fields in the PDF that no mapping fills
+  unmapped: string[];
+  // Mapped fields the PDF doesn't have
+  missing: string[];
+  // Mapped fields of the wrong kind, such as a checkbox mapping on a text field
+  mismatched: { field: string; type: CoverFieldMapping['type']; kind: string }[];
+}
+
+export function parseCoverTemplates(json: unknown, filename: string): CoverTemplate[] {
+  const validation = coverTemplateRegistrySchema.safeParse(json)
+  if (!validation.success) {
+    const fields = Object.entries(getFieldErrors(validation.error))
+      .map(([field, messages]) => `${field}: ${messages.join(', ')}`)
+    throw new Error(`Invalid cover template registry ${filename} - ${fields.join('; ')}`)
+  }
+  return validation.data
+}
+
+/**
+ * The template a packet opens with: the one the request names, otherwise
+ * the first one listing the project's product, otherwise the first one.
+ * Undefined only when no templates are registered.
+ */
+export function selectCoverTemplate(templates: CoverTemplate[], id: string | undefined, product: string): CoverTemplate | undefined {
+  return (id ? templates.find(template => template.id === id) : undefined)
+    ?? templates.find(template => template.products.includes(product))
+    ?? templates[0]
+}
+
+function lookup(values: CoverFieldValues, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined,
+    values
+  )
+}
+
+function toText(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value)
+}
+
+/**
+ * Text for a text or date field, or whether a checkbox is checked
+ */
+export function resolveCoverField(mapping: CoverFieldMapping, values: CoverFieldValues): string | boolean {
+  switch (mapping.type) {
+    case 'text':
+      return mapping.value.replace(PLACEHOLDER, (_, path: string) => toText(lookup(values, path)))
+    case 'date':
+      return formatCoverDate(toText(lookup(values, mapping.path)), mapping.format)
+    case 'checkbox': {
+      const value = lookup(values, mapping.path)
+      return mapping.equals !== undefined ? value === mapping.equals : Boolean(value)
+    }
+  }
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+
+/**
+ * Write a YYYY-MM-DD date in `format`, with the tokens YYYY, YY, MMMM
+ * (January), MMM (Jan), MM, M, DD and D. Anything else is left as it is.
+ */
+export function formatCoverDate(date: string, format: string): string {
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (!match) return date
+
+  const [, year, month, day] = match
+  const monthName = MONTHS[Number(month) - 1] ?? month
+  const tokens: Record<string, string> = {
+    YYYY: year,
+    YY: year.slice(2),
+    MMMM: monthName,
+    MMM: monthName.slice(0, 3),
+    MM: month,
+    M: String(Number(month)),
+    DD: day,
+    D: String(Number(day)),
+  }
+  return format.replace(/YYYY|YY|MMMM|MMM|MM|M|DD|D/g, token => tokens[token])
+}
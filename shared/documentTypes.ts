@@ -0,0 +1,62 @@
+// Catalog document types, as the app groups and colors them. Colors are
+// Tailwind palette names; divider pages print the same colors.
+export const documentTypeConfig = {
+  TDS: {
+    color: 'blue',
+    icon: '📋',
+    priority: 1,
+  },
+  ESR: {
+    color: 'green',
+    icon: '✅',
+    priority: 2,
+  },
+  MSDS: {
+    color: 'red',
+    icon: '⚠️',
+    priority: 8,
+  },
+  LEED: {
+    color: 'emerald',
+    icon: '🌿',
+    priority: 6,
+  },
+  Installation: {
+    color: 'orange',
+    icon: '🔧',
+    priority: 3,
+  },
+  warranty: {
+    color: 'purple',
+    icon: '🛡️',
+    priority: 4,
+  },
+  Acoustic: {
+    color: 'indigo',
+    icon: '🔊',
+    priority: 7,
+  },
+  PartSpec: {
+    color: 'gray',
+    icon: '📐',
+    priority: 5,
+  },
+};
+
+// The 600 shade of each Tailwind color above, as RGB for PDF pages
+const TYPE_COLORS: Record<string, [number, number, number]> = {
+  blue: [37, 99, 235],
+  green: [22, 163, 74],
+  red: [220, 38, 38],
+  emerald: [5, 150, 105],
+  orange: [234, 88, 12],
+  purple: [147, 51, 234],
+  indigo: [79, 70, 229],
+  gray: [75, 85, 99],
+}
+
+// RGB (0-255) for a document type, or undefined for uploads and unknown types
+export function getDocumentTypeColor(type: string): [number, number, number] | undefined {
+  const config = documentTypeConfig[type as keyof typeof documentTypeConfig]
+  return config ? TYPE_COLORS[config.color] : undefined
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { formatPageLabel, formatSubmittalId } from './numbering'
+
+describe('formatPageLabel', () => {
+  const context = { n: 12, total: 40, section: { number: 3, page: 2, total: 5 } }
+
+  it('fills in packet and section tokens', () => {
+    expect(formatPageLabel('Page {n} of {total}', context)).toBe('Page 12 of 40')
+    expect(formatPageLabel('{section}-{sectionPage} ({sectionPage}/{sectionTotal})', context)).toBe('3-2 (2/5)')
+  })
+
+  it('falls back to the packet page number outside any section', () => {
+    expect(formatPageLabel('{section}-{sectionPage}', { n: 1, total: 40 })).toBe('1')
+  })
+
+  it('fills packet tokens outside any section', () => {
+    expect(formatPageLabel('Page {n} of {total}', { n: 1, total: 40 })).toBe('Page 1 of 40')
+  })
+
+  it('leaves unknown tokens as they are', () => {
+    expect(formatPageLabel('{n} {page}', context)).toBe('12 {page}')
+  })
+})
+
+describe('formatSubmittalId', () => {
+  it('pads the sequence to three digits', () => {
+    expect(formatSubmittalId('06 16 26', 3, 1)).toBe('06 16 26-003.1')
+    expect(formatSubmittalId('06 16 26', 999, 0)).toBe('06 16 26-999.0')
+  })
+})
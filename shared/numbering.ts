@@ -0,0 +1,29 @@
+export interface PageLabelContext {
+  n: number;
+  total: number;
+  // Absent for the cover and table of contents, which come before any section
+  section?: { number: number; page: number; total: number };
+}
+
+/**
+ * Fill in a format template. Pages outside any section fall back to the plain
+ * packet page number when the template uses section tokens.
+ */
+export function formatPageLabel(format: string, context: PageLabelContext): string {
+  const usesSection = /\{section(Page|Total)?\}/.test(format)
+  if (usesSection && !context.section) {
+    return `${context.n}`
+  }
+
+  return format
+    .replace(/\{n\}/g, `${context.n}`)
+    .replace(/\{total\}/g, `${context.total}`)
+    .replace(/\{sectionPage\}/g, `${context.section?.page ?? ''}`)
+    .replace(/\{sectionTotal\}/g, `${context.section?.total ?? ''}`)
+    .replace(/\{section\}/g, `${context.section?.number ?? ''}`)
+}
+
+// e.g. "06 16 26-003.1"
+export function formatSubmittalId(specSection: string, sequence: number, revision: number): string {
+  return `${specSection}-${String(sequence).padStart(3, '0')}.${revision}`
+}
@@ -0,0 +1,362 @@
+import { PDFDocument, PDFRef, rgb, StandardFonts, PageSizes } from 'pdf-lib'
+import { loadCover, type CoverTemplateSource, type SubmittalLabel } from './cover'
+import { addTableOfContents, toEncodableText } from './toc'
+import { addDividerPages } from './dividers'
+import { addOutline, readSourceOutline } from './outline'
+import { imagesToPdf } from './images'
+import { addPageNumbers, addSubmittalStamp } from './numbering'
+import { addRunningHeader } from './runningHeader'
+import { addRevisionBlock } from './revisions'
+import type { PacketUploads, UploadedFile } from './uploads'
+import { formatSubmittalId } from '../numbering'
+import { formatDocumentVersion, type DocumentVersionInfo } from '../catalog'
+import { countRangePages, formatPageRanges, formatPageSelection, selectPageIndices } from '../pageRanges'
+import { getTableOfContentsPageCount } from '../packetLayout'
+import type { DocumentReport, GeneratePacketRequest, PacketFailure, PacketReport, PacketSection, ProjectData } from './types'
+
+/**
+ * Where a packet's documents are read from: the worker's catalog and
+ * document store, or the app's bundled catalog when the packet is built in
+ * the browser
+ */
+export interface PacketDocumentSource extends CoverTemplateSource {
+  get(id: string): (DocumentVersionInfo & { description?: string }) | undefined;
+  // Superseded and expired documents are still merged, but the report says so
+  versionWarnings(id: string): string[];
+  fetch(id: string): Promise<ArrayBuffer>;
+}
+
+export interface PacketProgress {
+  // Documents fully merged so far
+  processed: number;
+  total: number;
+  currentDocument?: string;
+}
+
+export interface BuildPacketOptions {
+  // Files uploaded with the request, for documents with source 'upload'
+  uploads?: PacketUploads;
+  onProgress?: (progress: PacketProgress) => void | Promise<void>;
+  signal?: AbortSignal;
+}
+
+export interface BuiltPacket {
+  pdfBytes: Uint8Array;
+  report: PacketReport;
+}
+
+export class PacketCancelledError extends Error {
+  constructor() {
+    super('Packet generation was cancelled')
+    this.name = 'PacketCancelledError'
+  }
+}
+
+// Thrown in strict mode when any document or page could not be merged
+export class PacketFailedError extends Error {
+  constructor(public failures: PacketFailure[]) {
+    super(`${failures.length} failure${failures.length !== 1 ? 's' : ''} while merging documents`)
+    this.name = 'PacketFailedError'
+  }
+}
+
+/**
+ * Build the full packet: filled cover template, table of contents, then a
+ * divider (unless left out) and the merged pages for each document, in
+ * request order.
+ * In strict mode nothing is returned if any page failed; a
+ * PacketFailedError lists every failure instead.
+ */
+export async function buildPacket(
+  catalog: PacketDocumentSource,
+  { projectData, documents, coverTemplate, mode = 'lenient', dividers = true, numbering, runningHeader, submittal, revisions = [] }: GeneratePacketRequest,
+  options: BuildPacketOptions = {}
+): Promise<BuiltPacket> {
+  const startedAt = Date.now()
+  const report: PacketReport = {
+    generatedAt: new Date().toISOString(),
+    totalPages: 0,
+    errorPages: 0,
+    durationMs: 0,
+    warnings: [],
+    documents: [],
+  }
+
+  // The sequence is assigned by the worker before the packet is built; packets
+  // built in the browser only have one when it was given, as for resubmittals
+  const submittalLabel: SubmittalLabel | undefined = submittal?.enabled && submittal.sequence
+    ? { id: formatSubmittalId(submittal.specSection, submittal.sequence, submittal.revision), specSection: submittal.specSection }
+    : undefined
+  report.submittalId = submittalLabel?.id
+  report.submittalSequence = submittalLabel ? submittal?.sequence : undefined
+  if (submittal?.enabled && !submittalLabel) {
+    report.warnings.push('No submittal sequence was assigned, so the packet is not stamped with a submittal number')
+  }
+
+  // Load the cover template and fill it
+  const finalPdf = await loadCover(catalog, projectData, coverTemplate, report.warnings, submittalLabel)
+  await addRevisionBlock(finalPdf, revisions)
+  const coverPageCount = finalPdf.getPageCount()
+
+  // Reserve room for the table of contents, which is inserted once page starts are known
+  let currentPageNumber = coverPageCount + getTableOfContentsPageCount(documents.length) + 1
+  const sections: PacketSection[] = []
+  const failures: PacketFailure[] = []
+
+  // Process each document
+  for (const [index, doc] of documents.entries()) {
+    if (options.signal?.aborted) {
+      throw new PacketCancelledError()
+    }
+    await options.onProgress?.({ processed: index, total: documents.length, currentDocument: doc.name })
+
+    const documentStartedAt = Date.now()
+    const docReport: DocumentReport = {
+      id: doc.id,
+      name: doc.name,
+      fetchedBytes: 0,
+      pageCount: 0,
+      pagesCopied: 0,
+      pagesFailed: 0,
+      encrypted: false,
+      warnings: [],
+      durationMs: 0,
+    }
+    report.documents.push(docReport)
+
+    // Error pages stand in for anything that could not be merged, unless the packet is strict
+    const recordFailure = async (message: string, reason: string, page?: number) => {
+      docReport.warnings.push(reason)
+      docReport.pagesFailed++
+      if (mode === 'strict') {
+        failures.push({ documentId: doc.id, documentName: doc.name, page, reason })
+        return
+      }
+      await addErrorPage(finalPdf, doc.name, message)
+      report.errorPages++
+      currentPageNumber++
+    }
+
+    console.log(`Processing: ${doc.name}`)
+
+    // Catalog documents print their version and description on the divider, and their version in the TOC
+    const entry = doc.source === 'upload' ? undefined : catalog.get(doc.id)
+    if (entry) {
+      docReport.warnings.push(...catalog.versionWarnings(doc.id))
+    }
+    const section: PacketSection = {
+      name: doc.name,
+      type: doc.type,
+      version: entry ? formatDocumentVersion(entry) : '',
+      description: entry?.description,
+      startPage: currentPageNumber,
+      pageCount: 0,
+      bookmarks: [],
+    }
+    sections.push(section)
+
+    // The divider is drawn once the section's page count is known
+    if (dividers) {
+      finalPdf.addPage(PageSizes.Letter)
+      currentPageNumber++
+    }
+
+    try {
+      // Fetch and merge PDF; uploaded images are laid out as PDF pages first
+      const fetched = doc.source === 'upload'
+        ? readUpload(options.uploads, doc.id)
+        : await fetchPDF(catalog, doc.id)
+      if (!('error' in fetched)) {
+        docReport.fetchedBytes = fetched.size
+
+        const sourcePdf = 'images' in fetched
+          ? await imagesToPdf(fetched.images, doc.captions ? image => `${image.name} - ${projectData.date}` : undefined)
+          : await loadSourcePdf(fetched.bytes, docReport)
+        // Only the selected pages are merged, in the order they were selected
+        const { indices: pageIndices, outOfRange } = selectPageIndices(doc.pages, sourcePdf.getPageCount())
+        docReport.pageCount = pageIndices.length
+        if (doc.pages) {
+          docReport.pageSelection = formatPageSelection(pageIndices.map(index => index + 1))
+          section.pages = docReport.pageSelection
+        }
+        if (outOfRange.length > 0) {
+          docReport.warnings.push(`Page${countRangePages(outOfRange) !== 1 ? 's' : ''} ${formatPageRanges(outOfRange)} selected but the document has ${sourcePdf.getPageCount()} pages`)
+        }
+        if (pageIndices.length === 0) {
+          await recordFailure('No pages selected', `None of the selected pages (${doc.pages}) are in the document`)
+        }
+        const copiedPages = new Map<PDFRef, PDFRef>()
+
+        // Copy pages one by one for better error handling
+        for (const pageIndex of pageIndices) {
+          const pageNumber = pageIndex + 1
+          try {
+            const [copiedPage] = await finalPdf.copyPages(sourcePdf, [pageIndex])
+            finalPdf.addPage(copiedPage)
+            copiedPages.set(sourcePdf.getPage(pageIndex).ref, copiedPage.ref)
+            docReport.pagesCopied++
+            currentPageNumber++
+          } catch (pageError) {
+            console.warn(`Failed to copy page ${pageNumber} from ${doc.name}:`, pageError)
+            // Add error page instead
+            await recordFailure(`Page ${pageNumber} could not be processed`, `Page ${pageNumber} could not be processed: ${errorMessage(pageError)}`, pageNumber)
+          }
+        }
+
+        // Keep the source document's own bookmarks under its section
+        try {
+          section.bookmarks = readSourceOutline(sourcePdf, copiedPages)
+        } catch (outlineError) {
+          console.warn(`Could not read outline from ${doc.name}:`, outlineError)
+          docReport.warnings.push(`Bookmarks could not be read: ${errorMessage(outlineError)}`)
+        }
+
+        console.log(`Successfully processed ${pageIndices.length} pages from ${doc.name}`)
+      } else {
+        // Add error page if PDF couldn't be loaded
+        await recordFailure('Document could not be loaded', `Document could not be loaded: ${fetched.error}`)
+      }
+    } catch (docError) {
+      console.error(`Error processing ${doc.name}:`, docError)
+      await recordFailure('Document processing failed', `Document processing failed: ${errorMessage(docError)}`)
+    }
+
+    section.pageCount = currentPageNumber - section.startPage - (dividers ? 1 : 0)
+    docReport.durationMs = Date.now() - documentStartedAt
+  }
+
+  if (failures.length > 0) {
+    throw new PacketFailedError(failures)
+  }
+
+  await options.onProgress?.({ processed: documents.length, total: documents.length })
+
+  // Add the table of contents right after the submittal cover
+  await addTableOfContents(finalPdf, sections, coverPageCount, report.warnings)
+  if (dividers) {
+    await addDividerPages(finalPdf, sections, report.warnings)
+  }
+
+  // Bookmarks: submittal form as the root, one entry per merged document
+  addOutline(finalPdf, [{
+    title: `${projectData.projectName} - Submittal Form`,
+    dest: finalPdf.getPage(0).ref,
+    children: [
+      { title: 'Table of Contents', dest: finalPdf.getPage(coverPageCount).ref, children: [] },
+      ...sections.map(section => ({
+        title: section.name,
+        dest: finalPdf.getPage(section.startPage - 1).ref,
+        children: section.bookmarks,
+      })),
+    ],
+  }])
+
+  // Add page numbers to all pages
+  await addPageNumbers(finalPdf, sections, coverPageCount, numbering)
+  await addRunningHeader(finalPdf, sections, coverPageCount, projectData, runningHeader, numbering, submittalLabel ? submittal : undefined)
+  if (submittal && submittalLabel) {
+    await addSubmittalStamp(finalPdf, submittalLabel.id, submittal, numbering)
+  }
+
+  // Generate final PDF
+  const pdfBytes = await finalPdf.save()
+
+  report.totalPages = finalPdf.getPageCount()
+  report.durationMs = Date.now() - startedAt
+
+  return { pdfBytes, report }
+}
+
+export function getPacketFilename(projectData: ProjectData): string {
+  return `${projectData.projectName.replace(/[^a-zA-Z0-9]/g, '_')}_Packet.pdf`
+}
+
+// Load a source document, recording whether it is encrypted
+async function loadSourcePdf(pdfBytes: ArrayBuffer, docReport: DocumentReport): Promise<PDFDocument> {
+  try {
+    return await PDFDocument.load(pdfBytes)
+  } catch (error) {
+    // Same check as PDFChecker; pdf-lib's error classes don't survive instanceof
+    if (error instanceof Error && error.message.includes('encrypted')) {
+      docReport.encrypted = true
+    }
+    throw error
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+type FetchedDocument =
+  | { bytes: ArrayBuffer; size: number }
+  | { images: UploadedFile[]; size: number }
+  | { error: string }
+
+// Fetch failures are reported, not thrown, so they get an error page like any other document problem
+async function fetchPDF(catalog: PacketDocumentSource, id: string): Promise<FetchedDocument> {
+  try {
+    const bytes = await catalog.fetch(id)
+    console.log(`PDF fetched successfully: ${bytes.byteLength} bytes`)
+    return { bytes, size: bytes.byteLength }
+  } catch (error) {
+    console.error(`Error fetching PDF ${id}:`, error)
+    return { error: errorMessage(error) }
+  }
+}
+
+function readUpload(uploads: PacketUploads | undefined, id: string): FetchedDocument {
+  const files = uploads?.get(id) || []
+  const size = files.reduce((sum, file) => sum + file.bytes.byteLength, 0)
+
+  if (files.length === 0) {
+    return { error: 'Uploaded file is missing' }
+  }
+  if (files[0].kind === 'pdf') {
+    return { bytes: files[0].bytes, size }
+  }
+  return { images: files, size }
+}
+
+async function addErrorPage(pdf: PDFDocument, documentName: string, errorMessage: string) {
+  const page = pdf.addPage(PageSizes.Letter)
+  const { height } = page.getSize()
+  const font = await pdf.embedFont(StandardFonts.Helvetica)
+  const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold)
+
+  // Error header
+  page.drawText('DOCUMENT ERROR', {
+    x: 50,
+    y: height - 100,
+    size: 16,
+    font: boldFont,
+    color: rgb(0.8, 0.2, 0.2),
+  })
+
+  // Document name
+  page.drawText(toEncodableText(documentName, boldFont), {
+    x: 50,
+    y: height - 150,
+    size: 14,
+    font: boldFont,
+    color: rgb(0, 0, 0),
+  })
+
+  // Error message
+  page.drawText(toEncodableText(`Error: ${errorMessage}`, font), {
+    x: 50,
+    y: height - 180,
+    size: 12,
+    font: font,
+    color: rgb(0.6, 0.2, 0.2),
+  })
+
+  // Instructions
+  page.drawText('Please contact support if this error persists.', {
+    x: 50,
+    y: height - 220,
+    size: 10,
+    font: font,
+    color: rgb(0.4, 0.4, 0.4),
+  })
+}
@@ -0,0 +1,473 @@
+import {
+  PageSizes,
+  PDFButton,
+  PDFCheckBox,
+  PDFDocument,
+  PDFDropdown,
+  PDFOptionList,
+  PDFRadioGroup,
+  PDFSignature,
+  PDFTextField,
+  rgb,
+  StandardFonts,
+  type PDFField,
+  type PDFRef,
+} from 'pdf-lib'
+import {
+  resolveCoverField,
+  selectCoverTemplate,
+  type CoverFieldMapping,
+  type CoverFieldReport,
+  type CoverFieldValues,
+  type CoverTemplate,
+  type CoverText,
+} from '../coverTemplates'
+import { toEncodableText } from './toc'
+import type { ProjectData } from './types'
+
+// Submittal identifier, and the spec section it names, for the cover
+export interface SubmittalLabel {
+  id: string;
+  specSection: string;
+}
+
+// Where cover templates are read from; see PacketDocumentSource
+export interface CoverTemplateSource {
+  // Named in log messages
+  name: string;
+  // The registered templates; empty when the store has no registry
+  getCoverTemplates(): Promise<CoverTemplate[]>;
+  // A template PDF by store path, or null when the store doesn't have it
+  getTemplate(path: string): Promise<ArrayBuffer | null>;
+}
+
+// Generated cover text when no template is registered
+const DEFAULT_COVER_TEXT: CoverText = {
+  title: ['Submittal Form'],
+  footer: [],
+}
+
+/**
+ * The packet's first pages: the cover template picked for the request, with
+ * its form filled in and flattened. A cover page is generated instead when no
+ * template is registered or its PDF can't be loaded.
+ */
+export async function loadCover(
+  source: CoverTemplateSource,
+  projectData: ProjectData,
+  templateId: string | undefined,
+  warnings: string[],
+  submittal?: SubmittalLabel
+): Promise<PDFDocument> {
+  let template: CoverTemplate | undefined
+  try {
+    template = selectCoverTemplate(await source.getCoverTemplates(), templateId, projectData.product)
+    if (!template) {
+      console.error(`No cover templates registered in ${source.name} store`)
+      warnings.push('No cover templates are registered; a generated cover page was used instead')
+      return await generateCover(projectData, undefined, submittal)
+    }
+    if (templateId && template.id !== templateId) {
+      warnings.push(`Cover template ${templateId} is not registered; ${template.name} was used instead`)
+    }
+
+    console.log(`Loading cover template ${template.id} from ${source.name}`)
+    const templateBytes = await source.getTemplate(template.path)
+    if (!templateBytes) {
+      console.error(`Template PDF ${template.path} not found in document store`)
+      warnings.push(`Submittal template ${template.path} not found; a generated cover page was used instead`)
+      return await generateCover(projectData, template, submittal)
+    }
+
+    console.log(`Template loaded successfully: ${templateBytes.byteLength} bytes`)
+    const pdfDoc = await PDFDocument.load(templateBytes)
+
+    try {
+      warnings.push(...fillCoverForm(pdfDoc, template, { ...projectData, submittal }))
+      // Flatten the form to make it non-editable
+      pdfDoc.getForm().flatten()
+    } catch (fillError) {
+      console.warn('Error filling form fields:', fillError)
+      warnings.push(`Submittal form fields could not be filled: ${errorMessage(fillError)}`)
+      console.log('Template will be used as-is without filling fields')
+    }
+
+    return pdfDoc
+
+  } catch (error) {
+    console.error('Error loading template PDF:', error)
+    // Fallback: create a custom cover page
+    console.log('Falling back to custom cover page')
+    warnings.push(`Submittal template could not be loaded (${errorMessage(error)}); a generated cover page was used instead`)
+    return generateCover(projectData, template, submittal)
+  }
+}
+
+/**
+ * Fill a template's form fields from its mapping. Returns a warning for each
+ * mapped field the PDF doesn't have, is of the wrong kind, or won't take
+ * its value.
+ */
+export function fillCoverForm(pdf: PDFDocument, template: CoverTemplate, values: CoverFieldValues): string[] {
+  const form = pdf.getForm()
+  const warnings: string[] = []
+
+  for (const mapping of template.fields) {
+    const field = form.getFieldMaybe(mapping.field)
+    if (!field) {
+      warnings.push(`Cover template ${template.id} has no form field named "${mapping.field}"`)
+      continue
+    }
+
+    const value = resolveCoverField(mapping, values)
+    try {
+      if (field instanceof PDFCheckBox && typeof value === 'boolean') {
+        if (value) {
+          field.check()
+        } else {
+          field.uncheck()
+        }
+      } else if (field instanceof PDFTextField && typeof value === 'string') {
+        field.setText(value)
+      } else {
+        warnings.push(`Cover field "${mapping.field}" is a ${fieldKind(field)} field and can't be filled as ${mapping.type}`)
+      }
+    } catch (error) {
+      warnings.push(`Cover field "${mapping.field}" could not be filled: ${errorMessage(error)}`)
+    }
+  }
+
+  return warnings
+}
+
+/**
+ * Every form field in a template PDF with the mapping that fills it, for
+ * checking a registry entry against its PDF
+ */
+export async function describeCoverFields(templateBytes: ArrayBuffer, template: CoverTemplate): Promise<CoverFieldReport> {
+  const pdf = await PDFDocument.load(templateBytes)
+  const mappings = new Map(template.fields.map(mapping => [mapping.field, mapping]))
+  const pageNumbers = new Map<PDFRef, number>(pdf.getPages().map((page, index) => [page.ref, index + 1]))
+
+  const fields = pdf.getForm().getFields().map(field => {
+    const pages = field.acroField.getWidgets()
+      .map(widget => {
+        const pageRef = widget.P()
+        return pageRef ? pageNumbers.get(pageRef) : undefined
+      })
+      .filter((page): page is number => page !== undefined)
+    return {
+      name: field.getName(),
+      kind: fieldKind(field),
+      pages: Array.from(new Set(pages)),
+      mapping: mappings.get(field.getName()),
+    }
+  })
+  const names = new Set(fields.map(field => field.name))
+
+  return {
+    template: { id: template.id, name: template.name, path: template.path },
+    fields,
+    unmapped: fields.filter(field => !field.mapping).map(field => field.name),
+    missing: template.fields.filter(mapping => !names.has(mapping.field)).map(mapping => mapping.field),
+    mismatched: fields
+      .filter(field => field.mapping && field.kind !== expectedKind(field.mapping.type))
+      .map(field => ({ field: field.name, type: field.mapping!.type, kind: field.kind })),
+  }
+}
+
+// Text and date mappings fill text fields
+function expectedKind(type: CoverFieldMapping['type']): string {
+  return type === 'checkbox' ? 'checkbox' : 'text'
+}
+
+// Class names don't survive minification, so the kind comes from instanceof
+function fieldKind(field: PDFField): string {
+  if (field instanceof PDFTextField) return 'text'
+  if (field instanceof PDFCheckBox) return 'checkbox'
+  if (field instanceof PDFRadioGroup) return 'radio'
+  if (field instanceof PDFDropdown) return 'dropdown'
+  if (field instanceof PDFOptionList) return 'option-list'
+  if (field instanceof PDFButton) return 'button'
+  if (field instanceof PDFSignature) return 'signature'
+  return 'unknown'
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+async function generateCover(projectData: ProjectData, template: CoverTemplate | undefined, submittal?: SubmittalLabel): Promise<PDFDocument> {
+  const pdf = await PDFDocument.create()
+  await addCoverPage(pdf, projectData, template, submittal)
+  return pdf
+}
+
+async function addCoverPage(pdf: PDFDocument, projectData: ProjectData, template: CoverTemplate | undefined, submittal?: SubmittalLabel) {
+  const text = template?.cover ?? DEFAULT_COVER_TEXT;
+  const specSection = submittal?.specSection ?? template?.specSection;
+  const page = pdf.addPage(PageSizes.Letter);
+  const { width, height } = page.getSize();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  // Colors
+  const nexgenCyan = rgb(0, 0.6, 0.8); // NEXGEN cyan/teal color
+  const darkGray = rgb(0.2, 0.2, 0.2);
+  const mediumGray = rgb(0.4, 0.4, 0.4);
+  const lightBlue = rgb(0.84, 0.9, 0.96); // Light blue for form backgrounds
+  const borderGray = rgb(0.7, 0.7, 0.7);
+
+  // NEXGEN Header (top left)
+  page.drawText('NEXGEN', {
+    x: 50,
+    y: height - 50,
+    size: 24,
+    font: boldFont,
+    color: nexgenCyan,
+  });
+
+  // Section identifier (top right)
+  if (specSection) {
+    page.drawRectangle({
+      x: width - 150,
+      y: height - 60,
+      width: 100,
+      height: 20,
+      color: nexgenCyan,
+    });
+    page.drawText(`SECTION ${specSection}`, {
+      x: width - 145,
+      y: height - 54,
+      size: 10,
+      font: boldFont,
+      color: rgb(1, 1, 1),
+    });
+  }
+
+  if (submittal) {
+    const submittalText = `Submittal No. ${submittal.id}`;
+    page.drawText(submittalText, {
+      x: width - 50 - boldFont.widthOfTextAtSize(submittalText, 9),
+      y: height - 75,
+      size: 9,
+      font: boldFont,
+      color: darkGray,
+    });
+  }
+
+  // Title
+  const titleY = height - 100;
+  text.title.forEach((line, index) => {
+    page.drawText(line, {
+      x: 50,
+      y: titleY - index * 15,
+      size: 12,
+      font: font,
+      color: darkGray,
+    });
+  });
+
+  // Form fields start position
+  let currentY = titleY - 50;
+  const labelX = 50;
+  const valueX = 200;
+  const fieldHeight = 25;
+  const fieldWidth = width - valueX - 50;
+
+  // Helper function to draw form field
+  const drawFormField = (label: string, value: string, y: number) => {
+    // Label
+    page.drawText(label, {
+      x: labelX,
+      y: y + 8,
+      size: 10,
+      font: font,
+      color: darkGray,
+    });
+
+    // Background box
+    page.drawRectangle({
+      x: valueX,
+      y: y,
+      width: fieldWidth,
+      height: fieldHeight,
+      color: lightBlue,
+      borderColor: borderGray,
+      borderWidth: 0.5,
+    });
+
+    // Value text
+    page.drawText(toEncodableText(value || '', font), {
+      x: valueX + 5,
+      y: y + 8,
+      size: 10,
+      font: font,
+      color: rgb(0, 0, 0),
+    });
+
+    // Bottom border line
+    page.drawLine({
+      start: { x: labelX, y: y },
+      end: { x: valueX + fieldWidth, y: y },
+      color: borderGray,
+      thickness: 0.5,
+    });
+  };
+
+  // Draw form fields
+  drawFormField('Submitted To', projectData.submittedTo, currentY);
+  currentY -= fieldHeight;
+
+  drawFormField('Project Name', projectData.projectName, currentY);
+  currentY -= fieldHeight;
+
+  drawFormField('Project Number', projectData.projectNumber || '', currentY);
+  currentY -= fieldHeight;
+
+  drawFormField('Prepared By', projectData.preparedBy, currentY);
+  currentY -= fieldHeight;
+
+  drawFormField('Phone/Email', `${projectData.phoneNumber} / ${projectData.emailAddress}`, currentY);
+  currentY -= fieldHeight;
+
+  drawFormField('Date', projectData.date, currentY);
+  currentY -= fieldHeight + 10;
+
+  // Status/Action section with checkboxes
+  page.drawText('Status / Action', {
+    x: labelX,
+    y: currentY,
+    size: 10,
+    font: boldFont,
+    color: darkGray,
+  });
+  currentY -= 20;
+
+  const checkboxSize = 12;
+  const checkboxSpacing = 130;
+  let checkboxX = valueX;
+
+  const drawCheckbox = (label: string, checked: boolean, x: number, y: number) => {
+    // Checkbox border
+    page.drawRectangle({
+      x: x,
+      y: y,
+      width: checkboxSize,
+      height: checkboxSize,
+      borderColor: borderGray,
+      borderWidth: 1,
+    });
+
+    // Checkbox background if checked
+    if (checked) {
+      page.drawRectangle({
+        x: x + 2,
+        y: y + 2,
+        width: checkboxSize - 4,
+        height: checkboxSize - 4,
+        color: nexgenCyan,
+      });
+
+      // X mark
+      page.drawText('X', {
+        x: x + 3,
+        y: y + 2,
+        size: 9,
+        font: boldFont,
+        color: rgb(1, 1, 1),
+      });
+    }
+
+    // Label
+    page.drawText(label, {
+      x: x + checkboxSize + 5,
+      y: y + 2,
+      size: 9,
+      font: font,
+      color: darkGray,
+    });
+  };
+
+  drawCheckbox('For Review', projectData.status.forReview, checkboxX, currentY);
+  drawCheckbox('For Approval', projectData.status.forApproval, checkboxX + checkboxSpacing, currentY);
+  currentY -= 18;
+  drawCheckbox('For Record', projectData.status.forRecord, checkboxX, currentY);
+  drawCheckbox('For Information Only', projectData.status.forInformationOnly, checkboxX + checkboxSpacing, currentY);
+
+  currentY -= 30;
+
+  // Submittal Type section
+  page.drawText('Submittal Type (check all that apply)', {
+    x: labelX,
+    y: currentY,
+    size: 10,
+    font: boldFont,
+    color: darkGray,
+  });
+  currentY -= 20;
+
+  const submittalTypes = [
+    { label: 'TDS', checked: projectData.submittalType.tds },
+    { label: '3-Part Specs', checked: projectData.submittalType.threePartSpecs },
+    { label: 'Test Report ICC-ESR 5194', checked: projectData.submittalType.testReportIccEsr5194 },
+    { label: 'Test Report ICC-ESL 1645', checked: projectData.submittalType.testReportIccEsl1645 },
+    { label: 'Fire Assembly', checked: projectData.submittalType.fireAssembly },
+    { label: '  Fire Assembly 01', checked: projectData.submittalType.fireAssembly01 },
+    { label: '  Fire Assembly 02', checked: projectData.submittalType.fireAssembly02 },
+    { label: '  Fire Assembly 03', checked: projectData.submittalType.fireAssembly03 },
+    { label: 'Material Safety Data Sheet (MSDS)', checked: projectData.submittalType.msds },
+    { label: 'LEED Guide', checked: projectData.submittalType.leedGuide },
+    { label: 'Installation Guide', checked: projectData.submittalType.installationGuide },
+    { label: 'Warranty', checked: projectData.submittalType.warranty },
+    { label: 'Samples', checked: projectData.submittalType.samples },
+    { label: toEncodableText(`Other: ${projectData.submittalType.otherText || ''}`, font), checked: projectData.submittalType.other },
+  ];
+
+  submittalTypes.forEach((type) => {
+    drawCheckbox(type.label, type.checked, valueX, currentY);
+    currentY -= 16;
+  });
+
+  currentY -= 10;
+
+  // Product section
+  page.drawText('Product:', {
+    x: labelX,
+    y: currentY,
+    size: 10,
+    font: boldFont,
+    color: darkGray,
+  });
+  page.drawText(toEncodableText(projectData.product, font), {
+    x: valueX,
+    y: currentY,
+    size: 10,
+    font: font,
+    color: darkGray,
+  });
+
+  // Footer section: company name, then address and contact lines
+  const footerY = 120;
+  text.footer.forEach((line, index) => {
+    page.drawText(line, {
+      x: labelX,
+      y: footerY - index * 12,
+      size: index === 0 ? 9 : 8,
+      font: index === 0 ? boldFont : font,
+      color: index === 0 ? darkGray : mediumGray,
+    });
+  });
+
+  // Version footer
+  if (text.version) {
+    const versionWidth = font.widthOfTextAtSize(text.version, 7);
+    page.drawText(text.version, {
+      x: width - versionWidth - 50,
+      y: 50,
+      size: 7,
+      font: font,
+      color: mediumGray,
+    });
+  }
+}
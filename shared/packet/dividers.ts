@@ -0,0 +1,127 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb, type RGB } from 'pdf-lib'
+import { getDocumentTypeColor } from '../documentTypes'
+import { fitText, wrapText } from './toc'
+import type { PacketSection } from './types'
+
+const MARGIN = 50
+// Colored band down the right edge, with the tab number on it
+const BAND_WIDTH = 36
+const TAB_HEIGHT = 72
+// Tabs step down the band like printed index tabs, then start again at the top
+const TAB_POSITIONS = 8
+
+const TITLE_SIZE = 26
+const TITLE_LINES = 4
+const DESCRIPTION_SIZE = 11
+const DESCRIPTION_LINES = 6
+
+const nexgenCyan = rgb(0, 0.6, 0.8)
+const darkGray = rgb(0.2, 0.2, 0.2)
+const mediumGray = rgb(0.4, 0.4, 0.4)
+
+/**
+ * Draw each section's divider on the blank page reserved for it. Drawn once
+ * every document is merged, so dividers can state their section's page count.
+ * A divider that can't be drawn is reported, and only that section loses it.
+ */
+export async function addDividerPages(pdf: PDFDocument, sections: PacketSection[], warnings: string[]) {
+  if (sections.length === 0) return
+
+  const font = await pdf.embedFont(StandardFonts.Helvetica)
+  const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold)
+  sections.forEach((section, index) => {
+    try {
+      drawDivider(pdf.getPage(section.startPage - 1), section, index + 1, font, boldFont)
+    } catch (error) {
+      console.warn(`Could not draw divider for ${section.name}:`, error)
+      warnings.push(`Divider for ${section.name} could not be drawn: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  })
+}
+
+// Uploads and unknown types use the NEXGEN cyan
+function typeColor(type: string): RGB {
+  const color = getDocumentTypeColor(type)
+  return color ? rgb(color[0] / 255, color[1] / 255, color[2] / 255) : nexgenCyan
+}
+
+function drawDivider(page: PDFPage, section: PacketSection, tabNumber: number, font: PDFFont, boldFont: PDFFont) {
+  const { width, height } = page.getSize()
+  const color = typeColor(section.type)
+  const contentWidth = width - MARGIN * 2 - BAND_WIDTH
+
+  // Type color band and tab
+  page.drawRectangle({ x: width - BAND_WIDTH, y: 0, width: BAND_WIDTH, height, color, opacity: 0.2 })
+  const tabTop = height - 100 - ((tabNumber - 1) % TAB_POSITIONS) * (TAB_HEIGHT + 8)
+  page.drawRectangle({ x: width - BAND_WIDTH - 8, y: tabTop - TAB_HEIGHT, width: BAND_WIDTH + 8, height: TAB_HEIGHT, color })
+  const tabLabel = `${tabNumber}`
+  const tabCenterX = width - (BAND_WIDTH + 8) / 2
+  page.drawText('TAB', {
+    x: tabCenterX - boldFont.widthOfTextAtSize('TAB', 7) / 2,
+    y: tabTop - 22,
+    size: 7,
+    font: boldFont,
+    color: rgb(1, 1, 1),
+  })
+  page.drawText(tabLabel, {
+    x: tabCenterX - boldFont.widthOfTextAtSize(tabLabel, 20) / 2,
+    y: tabTop - 48,
+    size: 20,
+    font: boldFont,
+    color: rgb(1, 1, 1),
+  })
+
+  // NEXGEN header, as on the generated cover page
+  page.drawText('NEXGEN', { x: MARGIN, y: height - 50, size: 24, font: boldFont, color: nexgenCyan })
+
+  let currentY = height - 150
+  page.drawText(`SECTION ${tabNumber}`, { x: MARGIN, y: currentY, size: 11, font: boldFont, color })
+  currentY -= 38
+
+  // Long names wrap rather than run into the band
+  for (const line of wrapText(section.name, boldFont, TITLE_SIZE, contentWidth, TITLE_LINES)) {
+    page.drawText(line, { x: MARGIN, y: currentY, size: TITLE_SIZE, font: boldFont, color: rgb(0, 0, 0) })
+    currentY -= TITLE_SIZE + 6
+  }
+
+  page.drawLine({
+    start: { x: MARGIN, y: currentY + 14 },
+    end: { x: MARGIN + 120, y: currentY + 14 },
+    color,
+    thickness: 3,
+  })
+  currentY -= 12
+
+  page.drawText(fitText(section.type, font, 12, contentWidth), { x: MARGIN, y: currentY, size: 12, font, color: mediumGray })
+  currentY -= 30
+
+  if (section.description) {
+    for (const line of wrapText(section.description, font, DESCRIPTION_SIZE, contentWidth, DESCRIPTION_LINES)) {
+      page.drawText(line, { x: MARGIN, y: currentY, size: DESCRIPTION_SIZE, font, color: darkGray })
+      currentY -= DESCRIPTION_SIZE + 5
+    }
+    currentY -= 20
+  }
+
+  // Document details
+  const details: [string, string][] = []
+  if (section.version) {
+    details.push(['Version', section.version])
+  }
+  details.push(['Pages', `${section.pageCount}${section.pages ? ` (${/[-,]/.test(section.pages) ? 'pages' : 'page'} ${section.pages} of the document)` : ''}`])
+  if (section.pageCount > 0) {
+    const first = section.startPage + 1
+    const last = section.startPage + section.pageCount
+    details.push(['Packet pages', first === last ? `${first}` : `${first}-${last}`])
+  }
+
+  for (const [label, value] of details) {
+    page.drawText(label, { x: MARGIN, y: currentY, size: 10, font: boldFont, color: darkGray })
+    page.drawText(fitText(value, font, 10, contentWidth - 90), { x: MARGIN + 90, y: currentY, size: 10, font, color: darkGray })
+    currentY -= 16
+  }
+
+  // Footer
+  page.drawText('NEXGEN® Building Products, LLC', { x: MARGIN, y: 62, size: 9, font: boldFont, color: darkGray })
+  page.drawText('Technical Support: support@nexgenbp.com', { x: MARGIN, y: 50, size: 8, font, color: mediumGray })
+}
@@ -0,0 +1,53 @@
+import { PDFDocument, PageSizes, StandardFonts, rgb } from 'pdf-lib'
+import { fitText } from './toc'
+import type { UploadedFile } from './uploads'
+
+const PAGE_MARGIN = 50
+const CAPTION_SIZE = 10
+const CAPTION_HEIGHT = 30
+
+/**
+ * Lay out uploaded PNG/JPEG images one per letter page, scaled to fit inside
+ * the margins, optionally with a caption underneath. The result is merged
+ * like any other source document.
+ */
+export async function imagesToPdf(images: UploadedFile[], caption?: (image: UploadedFile) => string): Promise<PDFDocument> {
+  const pdf = await PDFDocument.create()
+  const font = await pdf.embedFont(StandardFonts.Helvetica)
+
+  for (const image of images) {
+    const embedded = image.kind === 'png'
+      ? await pdf.embedPng(image.bytes)
+      : await pdf.embedJpg(image.bytes)
+
+    const page = pdf.addPage(PageSizes.Letter)
+    const { width, height } = page.getSize()
+
+    // Leave room for the caption below the image
+    const captionText = caption?.(image)
+    const boxWidth = width - PAGE_MARGIN * 2
+    const boxHeight = height - PAGE_MARGIN * 2 - (captionText ? CAPTION_HEIGHT : 0)
+    const { width: imageWidth, height: imageHeight } = embedded.scaleToFit(boxWidth, boxHeight)
+    const boxBottom = PAGE_MARGIN + (captionText ? CAPTION_HEIGHT : 0)
+
+    page.drawImage(embedded, {
+      x: (width - imageWidth) / 2,
+      y: boxBottom + (boxHeight - imageHeight) / 2,
+      width: imageWidth,
+      height: imageHeight,
+    })
+
+    if (captionText) {
+      const text = fitText(captionText, font, CAPTION_SIZE, boxWidth)
+      page.drawText(text, {
+        x: (width - font.widthOfTextAtSize(text, CAPTION_SIZE)) / 2,
+        y: PAGE_MARGIN + (CAPTION_HEIGHT - CAPTION_SIZE) / 2,
+        size: CAPTION_SIZE,
+        font,
+        color: rgb(0.4, 0.4, 0.4),
+      })
+    }
+  }
+
+  return pdf
+}
@@ -0,0 +1,158 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, degrees, rgb } from 'pdf-lib'
+import { formatPageLabel } from '../numbering'
+import { DEFAULT_PAGE_NUMBERING, type PageNumbering, type SubmittalNumbering } from '../schema'
+import { toEncodableText } from './toc'
+import type { PacketSection } from './types'
+
+const BACKING_PADDING = 3
+export const SUBMITTAL_FONT_SIZE = 10
+
+/**
+ * Stamp page numbers on every page of the finished packet. Positions are
+ * worked out from each page's visible area and rotation, so the number sits
+ * in the same visual corner on portrait, landscape and rotated pages.
+ */
+export async function addPageNumbers(
+  pdf: PDFDocument,
+  sections: PacketSection[],
+  coverPageCount: number,
+  numbering: PageNumbering = DEFAULT_PAGE_NUMBERING
+) {
+  if (!numbering.enabled) return
+
+  const pages = pdf.getPages()
+  const font = await pdf.embedFont(StandardFonts.Helvetica)
+  const ranges = getSectionRanges(sections, pages.length)
+
+  pages.forEach((page, index) => {
+    const n = index + 1
+    if (numbering.skipCover && index < coverPageCount) return
+
+    const sectionIndex = findSectionIndex(ranges, n)
+    const range = ranges[sectionIndex]
+    const label = formatPageLabel(numbering.format, {
+      n,
+      total: pages.length,
+      section: range && {
+        number: sectionIndex + 1,
+        page: n - range.start + 1,
+        total: range.end - range.start + 1,
+      },
+    })
+
+    drawPageLabel(page, label, font, numbering)
+  })
+}
+
+/**
+ * Stamp the submittal identifier on every page, cover included, using the
+ * page numbers' margin and backing so the two read as one set of marks.
+ */
+export async function addSubmittalStamp(
+  pdf: PDFDocument,
+  submittalId: string,
+  submittal: SubmittalNumbering,
+  numbering: PageNumbering = DEFAULT_PAGE_NUMBERING
+) {
+  const font = await pdf.embedFont(StandardFonts.HelveticaBold)
+  const style = {
+    position: submittal.position,
+    margin: numbering.margin,
+    fontSize: SUBMITTAL_FONT_SIZE,
+    backing: numbering.backing,
+  }
+
+  pdf.getPages().forEach(page => drawPageLabel(page, submittalId, font, style))
+}
+
+export interface SectionRange {
+  start: number;
+  end: number;
+}
+
+// First and last packet page (1-based) of each section
+export function getSectionRanges(sections: PacketSection[], pageCount: number): SectionRange[] {
+  return sections.map((section, index) => ({
+    start: section.startPage,
+    end: index + 1 < sections.length ? sections[index + 1].startPage - 1 : pageCount,
+  }))
+}
+
+// -1 for pages before the first section
+export function findSectionIndex(ranges: SectionRange[], pageNumber: number): number {
+  return ranges.findIndex(range => pageNumber >= range.start && pageNumber <= range.end)
+}
+
+type LabelStyle = Pick<PageNumbering, 'position' | 'margin' | 'fontSize' | 'backing'>
+
+function drawPageLabel(page: PDFPage, text: string, font: PDFFont, style: LabelStyle) {
+  const label = toEncodableText(text, font)
+  const { fontSize, margin, position } = style
+  const textWidth = font.widthOfTextAtSize(label, fontSize)
+  const textHeight = font.heightAtSize(fontSize, { descender: false })
+
+  // Work in the page's visual (as displayed) coordinates first
+  const box = page.getCropBox()
+  const angle = ((page.getRotation().angle % 360) + 360) % 360
+  const sideways = angle === 90 || angle === 270
+  const visualWidth = sideways ? box.height : box.width
+  const visualHeight = sideways ? box.width : box.height
+
+  const [vertical, horizontal] = position.split('-')
+  const vx = horizontal === 'left'
+    ? margin
+    : horizontal === 'center'
+      ? (visualWidth - textWidth) / 2
+      : visualWidth - margin - textWidth
+  const vy = vertical === 'top' ? visualHeight - margin - textHeight : margin
+
+  if (style.backing) {
+    drawRotated(box, angle, vx - BACKING_PADDING, vy - BACKING_PADDING, (x, y, rotate) => {
+      page.drawRectangle({
+        x,
+        y,
+        width: textWidth + BACKING_PADDING * 2,
+        height: textHeight + BACKING_PADDING * 2,
+        color: rgb(1, 1, 1),
+        rotate,
+      })
+    })
+  }
+
+  drawRotated(box, angle, vx, vy, (x, y, rotate) => {
+    page.drawText(label, {
+      x,
+      y,
+      size: fontSize,
+      font,
+      color: rgb(0.4, 0.4, 0.4),
+      rotate,
+    })
+  })
+}
+
+/**
+ * Map a visual point to user space for a page shown with /Rotate `angle`, and
+ * counter-rotate what is drawn there so it reads upright.
+ */
+function drawRotated(
+  box: { x: number; y: number; width: number; height: number },
+  angle: number,
+  vx: number,
+  vy: number,
+  draw: (x: number, y: number, rotate: ReturnType<typeof degrees>) => void
+) {
+  switch (angle) {
+    case 90:
+      draw(box.x + box.width - vy, box.y + vx, degrees(90))
+      break
+    case 180:
+      draw(box.x + box.width - vx, box.y + box.height - vy, degrees(180))
+      break
+    case 270:
+      draw(box.x + vy, box.y + box.height - vx, degrees(270))
+      break
+    default:
+      draw(box.x + vx, box.y + vy, degrees(0))
+  }
+}
@@ -0,0 +1,196 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRef,
+  PDFString,
+} from 'pdf-lib'
+
+export interface OutlineItem {
+  title: string;
+  dest: PDFRef;
+  children: OutlineItem[];
+}
+
+// Guards against malformed or cyclic outlines in source documents
+const MAX_OUTLINE_DEPTH = 8
+const MAX_OUTLINE_ITEMS = 500
+
+/**
+ * Write the document outline (bookmarks pane) and ask viewers to open it.
+ * Top-level items are left expanded, nested items start collapsed.
+ */
+export function addOutline(pdf: PDFDocument, items: OutlineItem[]) {
+  if (items.length === 0) return
+
+  const outlinesRef = pdf.context.nextRef()
+  const { first, last, count } = writeOutlineItems(pdf, items, outlinesRef, 0)
+
+  pdf.context.assign(
+    outlinesRef,
+    pdf.context.obj({
+      Type: 'Outlines',
+      First: first,
+      Last: last,
+      Count: count,
+    })
+  )
+  pdf.catalog.set(PDFName.of('Outlines'), outlinesRef)
+  pdf.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'))
+}
+
+function writeOutlineItems(
+  pdf: PDFDocument,
+  items: OutlineItem[],
+  parent: PDFRef,
+  depth: number
+): { first: PDFRef; last: PDFRef; count: number } {
+  const refs = items.map(() => pdf.context.nextRef())
+  let visibleCount = items.length
+
+  items.forEach((item, index) => {
+    const dict = pdf.context.obj({
+      Title: PDFHexString.fromText(item.title),
+      Parent: parent,
+      Dest: [item.dest, 'Fit'],
+    })
+
+    if (index > 0) dict.set(PDFName.of('Prev'), refs[index - 1])
+    if (index < refs.length - 1) dict.set(PDFName.of('Next'), refs[index + 1])
+
+    if (item.children.length > 0) {
+      const children = writeOutlineItems(pdf, item.children, refs[index], depth + 1)
+      const isOpen = depth === 0
+      dict.set(PDFName.of('First'), children.first)
+      dict.set(PDFName.of('Last'), children.last)
+      // Positive count = expanded, negative = collapsed
+      dict.set(PDFName.of('Count'), PDFNumber.of(isOpen ? children.count : -children.count))
+      if (isOpen) visibleCount += children.count
+    }
+
+    pdf.context.assign(refs[index], dict)
+  })
+
+  return { first: refs[0], last: refs[refs.length - 1], count: visibleCount }
+}
+
+/**
+ * Read a source PDF's own outline, re-targeting each destination to the page
+ * it was copied to. Items pointing at pages that were not copied are dropped
+ * (their children are kept).
+ */
+export function readSourceOutline(source: PDFDocument, copiedPages: Map<PDFRef, PDFRef>): OutlineItem[] {
+  const outlines = source.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict)
+  if (!outlines) return []
+
+  const visited = new Set<PDFDict>()
+  let itemCount = 0
+
+  const readItems = (parent: PDFDict, depth: number): OutlineItem[] => {
+    const items: OutlineItem[] = []
+    if (depth > MAX_OUTLINE_DEPTH) return items
+
+    let current = parent.lookupMaybe(PDFName.of('First'), PDFDict)
+    while (current && !visited.has(current) && itemCount < MAX_OUTLINE_ITEMS) {
+      visited.add(current)
+      itemCount++
+
+      const children = readItems(current, depth + 1)
+      const title = decodeTitle(current.lookup(PDFName.of('Title')))
+      const sourcePage = resolveDestinationPage(source, current)
+      const dest = sourcePage ? copiedPages.get(sourcePage) : undefined
+
+      if (dest) {
+        items.push({ title, dest, children })
+      } else {
+        items.push(...children)
+      }
+
+      current = current.lookupMaybe(PDFName.of('Next'), PDFDict)
+    }
+
+    return items
+  }
+
+  return readItems(outlines, 0)
+}
+
+function decodeTitle(title: PDFObject | undefined): string {
+  if (title instanceof PDFString || title instanceof PDFHexString) {
+    return title.decodeText().trim() || 'Untitled'
+  }
+  return 'Untitled'
+}
+
+// Outline items point at a page through /Dest or a GoTo action, either
+// directly ([page /Fit ...]) or via a named destination
+function resolveDestinationPage(source: PDFDocument, item: PDFDict): PDFRef | undefined {
+  let dest: PDFObject | undefined = item.lookup(PDFName.of('Dest'))
+
+  if (!dest) {
+    const action = item.lookupMaybe(PDFName.of('A'), PDFDict)
+    if (action && action.lookup(PDFName.of('S')) === PDFName.of('GoTo')) {
+      dest = action.lookup(PDFName.of('D'))
+    }
+  }
+
+  if (dest instanceof PDFName || dest instanceof PDFString || dest instanceof PDFHexString) {
+    dest = lookupNamedDestination(source, dest)
+  }
+
+  // Named destinations may be wrapped in a dictionary with a /D entry
+  if (dest instanceof PDFDict) {
+    dest = dest.lookup(PDFName.of('D'))
+  }
+
+  if (dest instanceof PDFArray && dest.size() > 0) {
+    const page = dest.get(0)
+    if (page instanceof PDFRef) return page
+  }
+
+  return undefined
+}
+
+function lookupNamedDestination(source: PDFDocument, name: PDFName | PDFString | PDFHexString): PDFObject | undefined {
+  // PDF 1.1 style: /Dests dictionary in the catalog keyed by name
+  if (name instanceof PDFName) {
+    const dests = source.catalog.lookupMaybe(PDFName.of('Dests'), PDFDict)
+    return dests?.lookup(name)
+  }
+
+  // PDF 1.2+: /Names /Dests name tree keyed by string
+  const names = source.catalog.lookupMaybe(PDFName.of('Names'), PDFDict)
+  const tree = names?.lookupMaybe(PDFName.of('Dests'), PDFDict)
+  return tree ? searchNameTree(tree, name.decodeText(), 0) : undefined
+}
+
+function searchNameTree(node: PDFDict, key: string, depth: number): PDFObject | undefined {
+  if (depth > MAX_OUTLINE_DEPTH) return undefined
+
+  const names = node.lookupMaybe(PDFName.of('Names'), PDFArray)
+  if (names) {
+    for (let i = 0; i + 1 < names.size(); i += 2) {
+      const entry = names.lookup(i)
+      if ((entry instanceof PDFString || entry instanceof PDFHexString) && entry.decodeText() === key) {
+        return names.lookup(i + 1)
+      }
+    }
+  }
+
+  const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray)
+  if (kids) {
+    for (let i = 0; i < kids.size(); i++) {
+      const kid = kids.lookup(i)
+      if (kid instanceof PDFDict) {
+        const found = searchNameTree(kid, key, depth + 1)
+        if (found) return found
+      }
+    }
+  }
+
+  return undefined
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import { decodePDFRawStream, PDFArray, PDFDocument, PDFRawStream } from 'pdf-lib'
+import { addRevisionBlock } from './revisions'
+import type { RevisionEntry } from '../schema'
+
+async function coverPdf(): Promise<PDFDocument> {
+  const pdf = await PDFDocument.create()
+  pdf.addPage([612, 792])
+  return pdf
+}
+
+// The cover page's content stream operators, after a save and reload
+async function coverContent(pdf: PDFDocument): Promise<string> {
+  const saved = await PDFDocument.load(await pdf.save())
+  const contents = saved.getPage(0).node.Contents()
+  if (!contents) return ''
+
+  const streams = contents instanceof PDFArray
+    ? contents.asArray().map(ref => saved.context.lookup(ref))
+    : [contents]
+  return streams
+    .map(stream => new TextDecoder('latin1').decode(decodePDFRawStream(stream as PDFRawStream).decode()))
+    .join('\n')
+}
+
+// Text drawn with the standard fonts, which pdf-lib writes as hex strings
+function drawnText(content: string): string[] {
+  return Array.from(content.matchAll(/<([0-9A-F]*)> Tj/g), ([, hex]) =>
+    String.fromCharCode(...(hex.match(/../g) ?? []).map(byte => parseInt(byte, 16))))
+}
+
+function revisions(count: number): RevisionEntry[] {
+  return Array.from({ length: count }, (_, revision) => ({
+    revision,
+    date: `2026-01-${String(revision + 1).padStart(2, '0')}`,
+    description: `Change ${revision}`,
+  }))
+}
+
+describe('addRevisionBlock', () => {
+  it('draws nothing without revisions', async () => {
+    const pdf = await coverPdf()
+    await addRevisionBlock(pdf, [])
+    expect(await coverContent(pdf)).toBe('')
+  })
+
+  it('lists each revision with its date and description', async () => {
+    const pdf = await coverPdf()
+    await addRevisionBlock(pdf, [
+      { revision: 0, date: '2026-01-05', description: 'Initial submittal' },
+      { revision: 1, date: '2026-02-10' },
+    ])
+
+    expect(drawnText(await coverContent(pdf))).toEqual([
+      'REVISIONS',
+      'Rev 0', '2026-01-05', 'Initial submittal',
+      'Rev 1', '2026-02-10',
+    ])
+  })
+
+  it('keeps only the newest revisions once the block is full', async () => {
+    const pdf = await coverPdf()
+    await addRevisionBlock(pdf, revisions(9))
+
+    const revs = drawnText(await coverContent(pdf)).filter(text => text.startsWith('Rev '))
+    expect(revs).toEqual(['Rev 3', 'Rev 4', 'Rev 5', 'Rev 6', 'Rev 7', 'Rev 8'])
+  })
+
+  it('sits in the bottom-right corner of the crop box', async () => {
+    const pdf = await coverPdf()
+    pdf.getPage(0).setCropBox(100, 0, 500, 792)
+    await addRevisionBlock(pdf, revisions(1))
+
+    // 260pt wide, 50pt in from the right edge of the crop box, above the footer
+    const content = await coverContent(pdf)
+    expect(content).toContain(`1 0 0 1 ${100 + 500 - 50 - 260} 64 cm`)
+    expect(content).toContain('260 0 l')
+  })
+
+  it('truncates descriptions that do not fit', async () => {
+    const pdf = await coverPdf()
+    await addRevisionBlock(pdf, [
+      { revision: 0, date: '2026-01-05', description: 'Replaced the acoustic report with the June 2025 ESL-1645 listing' },
+    ])
+
+    const [, , , description] = drawnText(await coverContent(pdf))
+    expect(description).toMatch(/^Replaced the acoustic .*\.\.\.$/)
+  })
+
+  it('replaces characters the font cannot draw', async () => {
+    const pdf = await coverPdf()
+    await addRevisionBlock(pdf, [{ revision: 0, date: '2026-01-05', description: '設計変更 ✓' }])
+
+    const [, , , description] = drawnText(await coverContent(pdf))
+    expect(description).toBe('???? ?')
+  })
+})
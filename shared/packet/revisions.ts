@@ -0,0 +1,65 @@
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib'
+import { fitText } from './toc'
+import type { RevisionEntry } from '../schema'
+
+const BLOCK_WIDTH = 260
+const ROW_HEIGHT = 12
+const FONT_SIZE = 8
+const PADDING = 6
+// Above the cover's version footer
+const BLOCK_BOTTOM = 64
+const RIGHT_MARGIN = 50
+// Older revisions are left off the cover once the block is full
+const MAX_ROWS = 6
+
+/**
+ * Draw the revision history as a small table in the bottom-right corner of
+ * the cover page, newest revision last.
+ */
+export async function addRevisionBlock(pdf: PDFDocument, revisions: RevisionEntry[]) {
+  if (revisions.length === 0) return
+
+  const page = pdf.getPage(0)
+  const font = await pdf.embedFont(StandardFonts.Helvetica)
+  const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold)
+  const rows = revisions.slice(-MAX_ROWS)
+
+  const { x: boxX, width: boxWidth } = page.getCropBox()
+  const x = boxX + boxWidth - RIGHT_MARGIN - BLOCK_WIDTH
+  const height = PADDING * 2 + ROW_HEIGHT * (rows.length + 1)
+  const top = BLOCK_BOTTOM + height
+
+  // Opaque so it stays legible over whatever the template has there
+  page.drawRectangle({
+    x,
+    y: BLOCK_BOTTOM,
+    width: BLOCK_WIDTH,
+    height,
+    color: rgb(1, 1, 1),
+    borderColor: rgb(0.7, 0.7, 0.7),
+    borderWidth: 0.5,
+  })
+
+  page.drawText('REVISIONS', {
+    x: x + PADDING,
+    y: top - PADDING - FONT_SIZE,
+    size: FONT_SIZE,
+    font: boldFont,
+    color: rgb(0.2, 0.2, 0.2),
+  })
+
+  const dateX = x + PADDING + 40
+  const descriptionX = dateX + 70
+  rows.forEach((entry, index) => {
+    const y = top - PADDING - FONT_SIZE - ROW_HEIGHT * (index + 1)
+    const rowFont = index === rows.length - 1 ? boldFont : font
+    const color = rgb(0.2, 0.2, 0.2)
+
+    page.drawText(`Rev ${entry.revision}`, { x: x + PADDING, y, size: FONT_SIZE, font: rowFont, color })
+    page.drawText(fitText(entry.date, rowFont, FONT_SIZE, descriptionX - dateX - 4), { x: dateX, y, size: FONT_SIZE, font: rowFont, color })
+    if (entry.description) {
+      const maxWidth = x + BLOCK_WIDTH - PADDING - descriptionX
+      page.drawText(fitText(entry.description, rowFont, FONT_SIZE, maxWidth), { x: descriptionX, y, size: FONT_SIZE, font: rowFont, color })
+    }
+  })
+}
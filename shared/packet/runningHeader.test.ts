@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { decodePDFRawStream, PDFArray, PDFDocument, PDFRawStream, StandardFonts } from 'pdf-lib'
+import { DEFAULT_PAGE_NUMBERING, DEFAULT_RUNNING_HEADER, DEFAULT_SUBMITTAL_NUMBERING } from '../schema'
+import { addSubmittalStamp, SUBMITTAL_FONT_SIZE } from './numbering'
+import { addRunningHeader } from './runningHeader'
+import type { PacketSection, ProjectData } from './types'
+
+const HEADER_FONT_SIZE = 8
+
+// Only the fields the running header prints
+const projectData = { projectName: 'Harbor View', projectNumber: 'P-1042', date: '2026-03-07' } as ProjectData
+
+const sections: PacketSection[] = [{ name: 'Technical Data', type: 'TDS', version: '', startPage: 2, pageCount: 1, bookmarks: [] }]
+
+// Baseline of every string drawn on the page, keyed by its text
+async function textBaselines(pdf: PDFDocument, pageIndex: number): Promise<Map<string, number>> {
+  const saved = await PDFDocument.load(await pdf.save())
+  const contents = saved.getPage(pageIndex).node.Contents()
+  const streams = contents instanceof PDFArray
+    ? contents.asArray().map(ref => saved.context.lookup(ref))
+    : contents ? [contents] : []
+  const content = streams
+    .map(stream => new TextDecoder('latin1').decode(decodePDFRawStream(stream as PDFRawStream).decode()))
+    .join('\n')
+
+  return new Map(Array.from(content.matchAll(/1 0 0 1 \S+ (\S+) Tm\s+<([0-9A-F]*)> Tj/g), ([, y, hex]) => [
+    String.fromCharCode(...(hex.match(/../g) ?? []).map(byte => parseInt(byte, 16))),
+    Number(y),
+  ]))
+}
+
+describe('addRunningHeader', () => {
+  it('moves below a submittal stamp on the same edge', async () => {
+    const pdf = await PDFDocument.create()
+    pdf.addPage([612, 792])
+    pdf.addPage([612, 792])
+    // Close enough to the top edge that the header's usual spot overlaps the stamp
+    const numbering = { ...DEFAULT_PAGE_NUMBERING, position: 'bottom-right' as const, margin: 14 }
+    const submittal = { ...DEFAULT_SUBMITTAL_NUMBERING, enabled: true, position: 'top-right' as const }
+    const runningHeader = { ...DEFAULT_RUNNING_HEADER, enabled: true, position: 'top' as const, fontSize: HEADER_FONT_SIZE }
+
+    await addRunningHeader(pdf, sections, 1, projectData, runningHeader, numbering, submittal)
+    await addSubmittalStamp(pdf, '06 16 26-001.0', submittal, numbering)
+
+    const font = await pdf.embedFont(StandardFonts.Helvetica)
+    const baselines = await textBaselines(pdf, 1)
+    const stampBottom = baselines.get('06 16 26-001.0')!
+    const headerTop = baselines.get('Technical Data')! + font.heightAtSize(HEADER_FONT_SIZE, { descender: false })
+    expect(stampBottom).toBeCloseTo(792 - 14 - font.heightAtSize(SUBMITTAL_FONT_SIZE, { descender: false }))
+    expect(headerTop).toBeLessThan(stampBottom)
+  })
+
+  it('stays at the edge when the stamp is on the other one', async () => {
+    const pdf = await PDFDocument.create()
+    pdf.addPage([612, 792])
+    pdf.addPage([612, 792])
+    const numbering = { ...DEFAULT_PAGE_NUMBERING, margin: 14 }
+    const submittal = { ...DEFAULT_SUBMITTAL_NUMBERING, enabled: true, position: 'bottom-left' as const }
+    const runningHeader = { ...DEFAULT_RUNNING_HEADER, enabled: true, position: 'top' as const, fontSize: HEADER_FONT_SIZE }
+
+    await addRunningHeader(pdf, sections, 1, projectData, runningHeader, numbering, submittal)
+
+    const font = await pdf.embedFont(StandardFonts.Helvetica)
+    const baselines = await textBaselines(pdf, 1)
+    expect(baselines.get('Technical Data')).toBeCloseTo(792 - 18 - font.heightAtSize(HEADER_FONT_SIZE, { descender: false }))
+  })
+})
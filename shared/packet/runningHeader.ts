@@ -0,0 +1,114 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib'
+import {
+  DEFAULT_PAGE_NUMBERING,
+  DEFAULT_RUNNING_HEADER,
+  type PageNumbering,
+  type RunningHeader,
+  type SubmittalNumbering,
+} from '../schema'
+import { findSectionIndex, getSectionRanges, SUBMITTAL_FONT_SIZE } from './numbering'
+import { fitText } from './toc'
+import type { PacketSection, ProjectData } from './types'
+
+// Distance from the page edge, and from the sides, in points
+const EDGE_MARGIN = 18
+const SIDE_MARGIN = 36
+// Space kept between the running header and page numbers or the submittal stamp on the same edge
+const NUMBER_GAP = 6
+const ITEM_GAP = 12
+
+/**
+ * Stamp the project name and number, submittal date and section name on
+ * every page after the cover. Rotated pages are left unstamped: they are
+ * usually landscape drawings whose title blocks sit along the edges.
+ * `submittal` is the stamp the packet will carry, if any.
+ */
+export async function addRunningHeader(
+  pdf: PDFDocument,
+  sections: PacketSection[],
+  coverPageCount: number,
+  projectData: ProjectData,
+  runningHeader: RunningHeader = DEFAULT_RUNNING_HEADER,
+  numbering: PageNumbering = DEFAULT_PAGE_NUMBERING,
+  submittal?: SubmittalNumbering
+) {
+  if (!runningHeader.enabled) return
+
+  const pages = pdf.getPages()
+  const font = await pdf.embedFont(StandardFonts.Helvetica)
+  const ranges = getSectionRanges(sections, pages.length)
+  const project = projectData.projectNumber
+    ? `${projectData.projectName} - Project No. ${projectData.projectNumber}`
+    : projectData.projectName
+  // The submittal stamp uses the page numbers' margin, enabled or not
+  const marks: EdgeMark[] = [
+    ...(numbering.enabled ? [numbering] : []),
+    ...(submittal ? [{ position: submittal.position, margin: numbering.margin, fontSize: SUBMITTAL_FONT_SIZE }] : []),
+  ]
+  const offset = getEdgeOffset(font, runningHeader, marks)
+
+  let rotatedPages = 0
+  pages.forEach((page, index) => {
+    if (index < coverPageCount) return
+    if (page.getRotation().angle % 360 !== 0) {
+      rotatedPages++
+      return
+    }
+
+    const section = sections[findSectionIndex(ranges, index + 1)]
+    drawRunningHeader(page, font, runningHeader, offset, [project, projectData.date, section?.name || ''])
+  })
+
+  if (rotatedPages > 0) {
+    console.log(`Running header left off ${rotatedPages} rotated page(s)`)
+  }
+}
+
+// A label stamped near the page edges: page numbers or the submittal stamp
+type EdgeMark = Pick<PageNumbering, 'position' | 'margin' | 'fontSize'>
+
+// Keep clear of every mark stamped along the same edge
+function getEdgeOffset(font: PDFFont, runningHeader: RunningHeader, marks: EdgeMark[]): number {
+  const textHeight = font.heightAtSize(runningHeader.fontSize, { descender: false })
+  return marks
+    .filter(mark => mark.position.startsWith(runningHeader.position))
+    .filter(mark => mark.margin < EDGE_MARGIN + textHeight + NUMBER_GAP)
+    .reduce((offset, mark) => Math.max(offset, mark.margin + font.heightAtSize(mark.fontSize, { descender: false }) + NUMBER_GAP), EDGE_MARGIN)
+}
+
+function drawRunningHeader(
+  page: PDFPage,
+  font: PDFFont,
+  runningHeader: RunningHeader,
+  offset: number,
+  [project, date, section]: [string, string, string]
+) {
+  const { fontSize, layout, position } = runningHeader
+  const box = page.getCropBox()
+  const textHeight = font.heightAtSize(fontSize, { descender: false })
+  const y = position === 'top' ? box.y + box.height - offset - textHeight : box.y + offset
+  const usableWidth = box.width - SIDE_MARGIN * 2
+
+  const draw = (text: string, x: number) => {
+    page.drawText(text, { x, y, size: fontSize, font, color: rgb(0.4, 0.4, 0.4) })
+  }
+
+  if (layout === 'line') {
+    const text = fitText([project, date, section].filter(Boolean).join('  |  '), font, fontSize, usableWidth)
+    draw(text, box.x + (box.width - font.widthOfTextAtSize(text, fontSize)) / 2)
+    return
+  }
+
+  const columnWidth = (usableWidth - ITEM_GAP * 2) / 3
+  const left = fitText(project, font, fontSize, columnWidth)
+  const center = fitText(date, font, fontSize, columnWidth)
+  const right = fitText(section, font, fontSize, columnWidth)
+
+  draw(left, box.x + SIDE_MARGIN)
+  if (center) {
+    draw(center, box.x + (box.width - font.widthOfTextAtSize(center, fontSize)) / 2)
+  }
+  if (right) {
+    draw(right, box.x + box.width - SIDE_MARGIN - font.widthOfTextAtSize(right, fontSize))
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFRef } from 'pdf-lib'
+import { TOC_ENTRIES_PER_PAGE } from '../packetLayout'
+import { addTableOfContents } from './toc'
+import type { PacketSection } from './types'
+
+// A cover page followed by one page per section, the way packets are laid out before the TOC goes in
+async function packetPdf(sectionCount: number, tocPageCount: number): Promise<{ pdf: PDFDocument; sections: PacketSection[] }> {
+  const pdf = await PDFDocument.create()
+  pdf.addPage([612, 792])
+  const sections = Array.from({ length: sectionCount }, (_, index) => {
+    pdf.addPage([612, 792])
+    return {
+      name: `Document ${index + 1}`,
+      type: 'TDS',
+      version: '',
+      startPage: 1 + tocPageCount + index + 1,
+      pageCount: 1,
+      bookmarks: [],
+    }
+  })
+  return { pdf, sections }
+}
+
+// Destination page of each link annotation on a page, in drawing order
+function linkTargets(pdf: PDFDocument, pageIndex: number): PDFRef[] {
+  const annots = pdf.getPage(pageIndex).node.Annots()
+  if (!annots) return []
+  return annots.asArray().map(ref => {
+    const link = pdf.context.lookup(ref, PDFDict)
+    return link.lookup(PDFName.of('Dest'), PDFArray).get(0) as PDFRef
+  })
+}
+
+describe('addTableOfContents', () => {
+  it('links every entry to its section when the contents run over several pages', async () => {
+    const sectionCount = TOC_ENTRIES_PER_PAGE + 3
+    const { pdf, sections } = await packetPdf(sectionCount, 2)
+    const warnings: string[] = []
+
+    await addTableOfContents(pdf, sections, 1, warnings)
+
+    expect(warnings).toEqual([])
+    expect(pdf.getPageCount()).toBe(1 + 2 + sectionCount)
+    const targets = [...linkTargets(pdf, 1), ...linkTargets(pdf, 2)]
+    expect(targets).toEqual(sections.map(section => pdf.getPage(section.startPage - 1).ref))
+    expect(linkTargets(pdf, 1)).toHaveLength(TOC_ENTRIES_PER_PAGE)
+  })
+})
@@ -0,0 +1,200 @@
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts, PageSizes } from 'pdf-lib'
+import { getTableOfContentsPageCount, TOC_ENTRIES_PER_PAGE } from '../packetLayout'
+import type { PacketSection } from './types'
+
+const TOC_ROW_HEIGHT = 24
+
+/**
+ * Insert the table of contents at `insertAt` (right after the submittal cover),
+ * with every entry linking to the first page of its section. An entry that
+ * can't be drawn is left out with a warning rather than failing the packet.
+ */
+export async function addTableOfContents(pdf: PDFDocument, sections: PacketSection[], insertAt: number, warnings: string[]) {
+  const font = await pdf.embedFont(StandardFonts.Helvetica)
+  const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold)
+  const pageCount = getTableOfContentsPageCount(sections.length)
+
+  const nexgenCyan = rgb(0, 0.6, 0.8);
+  const darkGray = rgb(0.2, 0.2, 0.2);
+  const mediumGray = rgb(0.4, 0.4, 0.4);
+  const borderGray = rgb(0.7, 0.7, 0.7);
+
+  // Every page goes in before any entry links, since section start pages count all of them
+  const pages = Array.from({ length: pageCount }, (_, pageIndex) => pdf.insertPage(insertAt + pageIndex, PageSizes.Letter))
+
+  pages.forEach((page, pageIndex) => {
+    const { width, height } = page.getSize()
+
+    // Header
+    page.drawText('NEXGEN', {
+      x: 50,
+      y: height - 50,
+      size: 24,
+      font: boldFont,
+      color: nexgenCyan,
+    })
+    page.drawText(pageIndex === 0 ? 'TABLE OF CONTENTS' : 'TABLE OF CONTENTS (CONTINUED)', {
+      x: 50,
+      y: height - 100,
+      size: 16,
+      font: boldFont,
+      color: nexgenCyan,
+    })
+
+    // Column headings
+    const headingY = height - 135
+    const numberX = 50
+    const nameX = 80
+    const versionX = width - 260
+    const typeX = width - 150
+    const pageRightX = width - 50
+
+    page.drawText('#', { x: numberX, y: headingY, size: 9, font: boldFont, color: mediumGray })
+    page.drawText('Document', { x: nameX, y: headingY, size: 9, font: boldFont, color: mediumGray })
+    page.drawText('Version', { x: versionX, y: headingY, size: 9, font: boldFont, color: mediumGray })
+    page.drawText('Type', { x: typeX, y: headingY, size: 9, font: boldFont, color: mediumGray })
+    page.drawText('Page', {
+      x: pageRightX - boldFont.widthOfTextAtSize('Page', 9),
+      y: headingY,
+      size: 9,
+      font: boldFont,
+      color: mediumGray,
+    })
+    page.drawLine({
+      start: { x: 50, y: headingY - 6 },
+      end: { x: pageRightX, y: headingY - 6 },
+      color: borderGray,
+      thickness: 0.5,
+    })
+
+    const pageSections = sections.slice(pageIndex * TOC_ENTRIES_PER_PAGE, (pageIndex + 1) * TOC_ENTRIES_PER_PAGE)
+    let currentY = headingY - 6 - TOC_ROW_HEIGHT
+
+    pageSections.forEach((section, index) => {
+      const entryNumber = pageIndex * TOC_ENTRIES_PER_PAGE + index + 1
+      const pageLabel = `${section.startPage}`
+      const pageLabelWidth = font.widthOfTextAtSize(pageLabel, 11)
+
+      try {
+        page.drawText(`${entryNumber}.`, { x: numberX, y: currentY, size: 11, font: font, color: darkGray })
+        const name = section.pages ? `${section.name} (${/[-,]/.test(section.pages) ? 'pages' : 'page'} ${section.pages})` : section.name
+        page.drawText(fitText(name, font, 11, versionX - nameX - 15), {
+          x: nameX,
+          y: currentY,
+          size: 11,
+          font: font,
+          color: rgb(0, 0, 0),
+        })
+        page.drawText(fitText(section.version, font, 10, typeX - versionX - 10), {
+          x: versionX,
+          y: currentY,
+          size: 10,
+          font: font,
+          color: mediumGray,
+        })
+        page.drawText(fitText(section.type, font, 10, pageRightX - pageLabelWidth - typeX - 15), {
+          x: typeX,
+          y: currentY,
+          size: 10,
+          font: font,
+          color: mediumGray,
+        })
+        page.drawText(pageLabel, {
+          x: pageRightX - pageLabelWidth,
+          y: currentY,
+          size: 11,
+          font: font,
+          color: darkGray,
+        })
+
+        // Make the whole row clickable
+        addInternalLink(pdf, page, pdf.getPage(section.startPage - 1), {
+          x: numberX,
+          y: currentY - 6,
+          width: pageRightX - numberX,
+          height: TOC_ROW_HEIGHT - 4,
+        })
+      } catch (error) {
+        console.warn(`Could not draw table of contents entry for ${section.name}:`, error)
+        warnings.push(`Table of contents entry for ${section.name} could not be drawn: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+
+      currentY -= TOC_ROW_HEIGHT
+    })
+  })
+}
+
+function addInternalLink(
+  pdf: PDFDocument,
+  page: PDFPage,
+  target: PDFPage,
+  rect: { x: number; y: number; width: number; height: number }
+) {
+  const link = pdf.context.register(
+    pdf.context.obj({
+      Type: 'Annot',
+      Subtype: 'Link',
+      Rect: [rect.x, rect.y, rect.x + rect.width, rect.y + rect.height],
+      Border: [0, 0, 0],
+      Dest: [target.ref, 'Fit'],
+    })
+  )
+  page.node.addAnnot(link)
+}
+
+const characterSets = new WeakMap<PDFFont, Set<number>>()
+
+/**
+ * Replace characters the font can't encode with "?". The standard fonts
+ * only cover WinAnsi, so CJK, emoji and many symbols in document and file
+ * names would otherwise make drawText throw.
+ */
+export function toEncodableText(text: string, font: PDFFont): string {
+  let supported = characterSets.get(font)
+  if (!supported) {
+    supported = new Set(font.getCharacterSet())
+    characterSets.set(font, supported)
+  }
+  const characters = supported
+  return Array.from(text, character => characters.has(character.codePointAt(0)!) ? character : '?').join('')
+}
+
+// Truncate text with an ellipsis so it fits in maxWidth; unencodable characters become "?"
+export function fitText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  text = toEncodableText(text, font)
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) {
+    return text
+  }
+
+  let truncated = text
+  while (truncated.length > 0 && font.widthOfTextAtSize(`${truncated}...`, size) > maxWidth) {
+    truncated = truncated.slice(0, -1)
+  }
+  return `${truncated}...`
+}
+
+/**
+ * Break text into lines that fit in maxWidth. Past maxLines, the last line
+ * is truncated with an ellipsis.
+ */
+export function wrapText(text: string, font: PDFFont, size: number, maxWidth: number, maxLines: number): string[] {
+  text = toEncodableText(text, font)
+  const lines: string[] = []
+  let line = ''
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word
+    if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+      lines.push(line)
+      line = word
+    } else {
+      line = candidate
+    }
+  }
+  if (line) lines.push(line)
+
+  // Words longer than a line are cut too; text past the last line is cut there
+  return [
+    ...lines.slice(0, maxLines - 1),
+    ...(lines.length >= maxLines ? [lines.slice(maxLines - 1).join(' ')] : []),
+  ].map(kept => fitText(kept, font, size, maxWidth))
+}
@@ -0,0 +1,58 @@
+import type { OutlineItem } from './outline'
+
+export type { ProjectData, DocumentRequest, PacketMode, GeneratePacketRequest } from '../schema'
+
+// A merged document in the packet, as referenced by the TOC and outline
+export interface PacketSection {
+  name: string;
+  type: string;
+  // Catalog version, empty for uploads and unversioned documents
+  version: string;
+  // Catalog description, printed on the divider
+  description?: string;
+  // Page selection, when only some of the document's pages were merged
+  pages?: string;
+  // Packet page the section starts on: its divider, or its first page when
+  // the packet has no dividers
+  startPage: number;
+  // Pages after the divider, error pages included
+  pageCount: number;
+  bookmarks: OutlineItem[];
+}
+
+// Machine-readable summary of what went into a generated packet
+export interface DocumentReport {
+  id: string;
+  name: string;
+  fetchedBytes: number;
+  // Pages selected for the packet; the whole document unless `pageSelection` is set
+  pageCount: number;
+  pageSelection?: string;
+  pagesCopied: number;
+  pagesFailed: number;
+  encrypted: boolean;
+  warnings: string[];
+  durationMs: number;
+}
+
+export interface PacketReport {
+  generatedAt: string;
+  totalPages: number;
+  // Placeholder "DOCUMENT ERROR" pages inserted into the packet
+  errorPages: number;
+  durationMs: number;
+  // Stamped submittal identifier, when submittal numbering was requested
+  submittalId?: string;
+  submittalSequence?: number;
+  warnings: string[];
+  documents: DocumentReport[];
+}
+
+// A document or page that could not be merged, reported when a strict packet fails
+export interface PacketFailure {
+  documentId: string;
+  documentName: string;
+  // 1-based page in the source document, absent when the whole document failed
+  page?: number;
+  reason: string;
+}
@@ -0,0 +1,26 @@
+export type UploadKind = 'pdf' | 'png' | 'jpeg'
+
+export interface UploadedFile {
+  name: string;
+  kind: UploadKind;
+  bytes: ArrayBuffer;
+}
+
+// Files uploaded with a packet request, by document id. A document is either
+// a single PDF or one or more images.
+export type PacketUploads = Map<string, UploadedFile[]>
+
+// Identify uploads by content rather than trusting the client's file type
+export function detectKind(bytes: ArrayBuffer): UploadKind | null {
+  const header = new Uint8Array(bytes.slice(0, 1024))
+  if (header[0] === 0x89 && header[1] === 0x50 && header[2] === 0x4e && header[3] === 0x47) {
+    return 'png'
+  }
+  if (header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) {
+    return 'jpeg'
+  }
+  if (new TextDecoder().decode(header).includes('%PDF-')) {
+    return 'pdf'
+  }
+  return null
+}
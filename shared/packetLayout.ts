@@ -0,0 +1,12 @@
+// Packet layout rules the app needs to predict page numbers before the
+// worker builds the packet
+
+export const TOC_ENTRIES_PER_PAGE = 22
+
+/**
+ * Number of pages the table of contents will occupy. Only depends on the
+ * entry count, so page starts can be computed before the TOC is drawn.
+ */
+export function getTableOfContentsPageCount(sectionCount: number): number {
+  return Math.max(1, Math.ceil(sectionCount / TOC_ENTRIES_PER_PAGE))
+}
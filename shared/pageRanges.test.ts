@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import {
+  countRangePages,
+  countSelectedPages,
+  formatPageRanges,
+  formatPageSelection,
+  MAX_PAGE_NUMBER,
+  parsePageSelection,
+  selectPageIndices,
+} from './pageRanges'
+
+describe('parsePageSelection', () => {
+  it('parses pages and ranges in the order they are written', () => {
+    expect(parsePageSelection('7, 1-3')).toEqual([{ start: 7, end: 7 }, { start: 1, end: 3 }])
+  })
+
+  it('allows spaces around dashes and commas', () => {
+    expect(parsePageSelection(' 2 - 4 ,5 ')).toEqual([{ start: 2, end: 4 }, { start: 5, end: 5 }])
+  })
+
+  it('rejects page 0, reversed ranges and anything that is not a number', () => {
+    expect(parsePageSelection('0')).toBeNull()
+    expect(parsePageSelection('0-3')).toBeNull()
+    expect(parsePageSelection('5-2')).toBeNull()
+    expect(parsePageSelection('1-')).toBeNull()
+    expect(parsePageSelection('a')).toBeNull()
+    expect(parsePageSelection('1,,2')).toBeNull()
+    expect(parsePageSelection('')).toBeNull()
+  })
+
+  it('accepts pages up to MAX_PAGE_NUMBER and nothing past it', () => {
+    expect(parsePageSelection(`1-${MAX_PAGE_NUMBER}`)).toEqual([{ start: 1, end: MAX_PAGE_NUMBER }])
+    expect(parsePageSelection(`${MAX_PAGE_NUMBER + 1}`)).toBeNull()
+    expect(parsePageSelection('1-99999999')).toBeNull()
+  })
+})
+
+describe('selectPageIndices', () => {
+  it('selects every page when there is no selection', () => {
+    expect(selectPageIndices(undefined, 3)).toEqual({ indices: [0, 1, 2], outOfRange: [] })
+    expect(selectPageIndices('  ', 2)).toEqual({ indices: [0, 1], outOfRange: [] })
+  })
+
+  it('selects every page when the selection does not parse', () => {
+    expect(selectPageIndices('5-2', 2)).toEqual({ indices: [0, 1], outOfRange: [] })
+  })
+
+  it('keeps the written order and drops repeats', () => {
+    expect(selectPageIndices('3, 1-3, 2', 5).indices).toEqual([2, 0, 1])
+  })
+
+  it('selects the first and last page of the document', () => {
+    expect(selectPageIndices('1', 4)).toEqual({ indices: [0], outOfRange: [] })
+    expect(selectPageIndices('4', 4)).toEqual({ indices: [3], outOfRange: [] })
+  })
+
+  it('reports pages just past the end of the document', () => {
+    expect(selectPageIndices('4-5', 4)).toEqual({ indices: [3], outOfRange: [{ start: 5, end: 5 }] })
+    expect(selectPageIndices('5', 4)).toEqual({ indices: [], outOfRange: [{ start: 5, end: 5 }] })
+  })
+
+  it('clamps huge ranges to the document', () => {
+    const { indices, outOfRange } = selectPageIndices(`1-${MAX_PAGE_NUMBER}`, 4)
+    expect(indices).toEqual([0, 1, 2, 3])
+    expect(outOfRange).toEqual([{ start: 5, end: MAX_PAGE_NUMBER }])
+  })
+
+  it('merges overlapping and adjacent out-of-range pages', () => {
+    const { indices, outOfRange } = selectPageIndices('1-10000, 3, 9000-9999', 4)
+    expect(indices).toEqual([0, 1, 2, 3])
+    expect(outOfRange).toEqual([{ start: 5, end: 10000 }])
+
+    expect(selectPageIndices('9, 5-6, 7', 4).outOfRange).toEqual([{ start: 5, end: 7 }, { start: 9, end: 9 }])
+  })
+
+  it('reports every selected page of an empty document as out of range', () => {
+    expect(selectPageIndices('1-2', 0)).toEqual({ indices: [], outOfRange: [{ start: 1, end: 2 }] })
+  })
+})
+
+describe('countSelectedPages', () => {
+  it('counts only pages the document has', () => {
+    expect(countSelectedPages('2-9', 4)).toBe(3)
+  })
+
+  it('is undefined until the page count is known', () => {
+    expect(countSelectedPages('1-3', undefined)).toBeUndefined()
+  })
+})
+
+describe('countRangePages', () => {
+  it('counts inclusive ranges', () => {
+    expect(countRangePages([{ start: 5, end: 5 }, { start: 7, end: MAX_PAGE_NUMBER }])).toBe(1 + MAX_PAGE_NUMBER - 6)
+    expect(countRangePages([])).toBe(0)
+  })
+})
+
+describe('formatPageSelection', () => {
+  it('collapses runs of pages', () => {
+    expect(formatPageSelection([1, 2, 3, 7])).toBe('1-3, 7')
+    expect(formatPageSelection([4])).toBe('4')
+    expect(formatPageSelection([])).toBe('')
+  })
+
+  it('round-trips through parsePageSelection', () => {
+    expect(parsePageSelection(formatPageSelection([2, 3, 5, 6, 7, 10]))).toEqual([
+      { start: 2, end: 3 },
+      { start: 5, end: 7 },
+      { start: 10, end: 10 },
+    ])
+  })
+})
+
+describe('formatPageRanges', () => {
+  it('writes single pages without a dash', () => {
+    expect(formatPageRanges([{ start: 5, end: 5 }, { start: 7, end: 9 }])).toBe('5, 7-9')
+  })
+})
@@ -0,0 +1,112 @@
+// Page selections such as "1-3, 7": 1-based page numbers and inclusive
+// ranges, merged in the order they are written.
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
+// No document in a packet comes close; keeps selections like "1-99999999" cheap to check
+export const MAX_PAGE_NUMBER = 10000
+
+/**
+ * Parse a page selection, or return null if it isn't one. Reversed ranges
+ * ("5-2"), page 0 and pages past MAX_PAGE_NUMBER are rejected.
+ */
+export function parsePageSelection(selection: string): PageRange[] | null {
+  const parts = selection.split(',').map(part => part.trim())
+  const ranges: PageRange[] = []
+  for (const part of parts) {
+    const match = part.match(/^(\d+)(?:\s*-\s*(\d+))?$/)
+    if (!match) return null
+
+    const start = Number(match[1])
+    const end = match[2] ? Number(match[2]) : start
+    if (start < 1 || end < start || end > MAX_PAGE_NUMBER) return null
+    ranges.push({ start, end })
+  }
+  return ranges
+}
+
+/**
+ * Zero-based page indices a selection picks from a document with
+ * `pageCount` pages. No selection means every page. Pages past the end of
+ * the document are returned separately, as merged ranges, and repeats are
+ * dropped.
+ */
+export function selectPageIndices(selection: string | undefined, pageCount: number): { indices: number[]; outOfRange: PageRange[] } {
+  const ranges = selection?.trim() ? parsePageSelection(selection) : null
+  if (!ranges) {
+    return { indices: Array.from({ length: pageCount }, (_, index) => index), outOfRange: [] }
+  }
+
+  const indices: number[] = []
+  const outOfRange: PageRange[] = []
+  const seen = new Set<number>()
+  for (const { start, end } of ranges) {
+    // Only pages the document has are walked one by one
+    for (let page = start; page <= Math.min(end, pageCount); page++) {
+      if (seen.has(page)) continue
+      seen.add(page)
+      indices.push(page - 1)
+    }
+    if (end > pageCount) {
+      outOfRange.push({ start: Math.max(start, pageCount + 1), end })
+    }
+  }
+  return { indices, outOfRange: mergeRanges(outOfRange) }
+}
+
+// Sorted, with overlapping and adjacent ranges joined
+function mergeRanges(ranges: PageRange[]): PageRange[] {
+  const merged: PageRange[] = []
+  for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1]
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end)
+    } else {
+      merged.push({ ...range })
+    }
+  }
+  return merged
+}
+
+/**
+ * Number of pages in a list of ranges that don't overlap
+ */
+export function countRangePages(ranges: PageRange[]): number {
+  return ranges.reduce((sum, { start, end }) => sum + end - start + 1, 0)
+}
+
+/**
+ * Pages a selection keeps, or undefined when the page count isn't known yet
+ */
+export function countSelectedPages(selection: string | undefined, pageCount: number | undefined): number | undefined {
+  if (pageCount === undefined) return undefined
+  return selectPageIndices(selection, pageCount).indices.length
+}
+
+/**
+ * Write 1-based page numbers back as a selection, collapsing runs:
+ * [1, 2, 3, 7] becomes "1-3, 7"
+ */
+export function formatPageSelection(pages: number[]): string {
+  const ranges: PageRange[] = []
+  let index = 0
+  while (index < pages.length) {
+    const start = pages[index]
+    let end = start
+    while (index + 1 < pages.length && pages[index + 1] === end + 1) {
+      end = pages[++index]
+    }
+    ranges.push({ start, end })
+    index++
+  }
+  return formatPageRanges(ranges)
+}
+
+/**
+ * Write ranges as a selection: "1-3, 7"
+ */
+export function formatPageRanges(ranges: PageRange[]): string {
+  return ranges.map(({ start, end }) => start === end ? `${start}` : `${start}-${end}`).join(', ')
+}
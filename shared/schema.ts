@@ -0,0 +1,227 @@
+import { z } from 'zod'
+import { MAX_PAGE_NUMBER, parsePageSelection } from './pageRanges'
+
+// Request contract between the frontend and the packet worker. Both sides
+// import from here so the shapes can't drift apart.
+
+export const projectStatusSchema = z.object({
+  forReview: z.boolean(),
+  forApproval: z.boolean(),
+  forRecord: z.boolean(),
+  forInformationOnly: z.boolean(),
+})
+
+export const submittalTypeSchema = z.object({
+  tds: z.boolean(),
+  threePartSpecs: z.boolean(),
+  testReportIccEsr5194: z.boolean(),
+  testReportIccEsl1645: z.boolean(),
+  fireAssembly: z.boolean(),
+  fireAssembly01: z.boolean(),
+  fireAssembly02: z.boolean(),
+  fireAssembly03: z.boolean(),
+  msds: z.boolean(),
+  leedGuide: z.boolean(),
+  installationGuide: z.boolean(),
+  warranty: z.boolean(),
+  samples: z.boolean(),
+  other: z.boolean(),
+  otherText: z.string().optional(),
+})
+
+export const projectDataSchema = z.object({
+  projectName: z.string().trim().min(1, 'Project name is required'),
+  submittedTo: z.string(),
+  preparedBy: z.string(),
+  date: z.string(),
+  projectNumber: z.string().optional(),
+  emailAddress: z.string(),
+  phoneNumber: z.string(),
+  product: z.string(),
+  status: projectStatusSchema,
+  submittalType: submittalTypeSchema,
+})
+
+// Catalog documents are named by id and the worker decides where to read them
+// from. Uploaded documents travel with the request as multipart file parts.
+export const documentRequestSourceSchema = z.enum(['catalog', 'upload'])
+
+// e.g. "1-3, 7"; see shared/pageRanges.ts
+export const pageSelectionSchema = z.string().trim().max(200)
+  .refine(selection => parsePageSelection(selection) !== null, `Use page numbers up to ${MAX_PAGE_NUMBER} and ranges like "1-3, 7"`)
+
+export const documentRequestSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  type: z.string(),
+  source: documentRequestSourceSchema.optional(),
+  // Caption uploaded images with their filename and the submittal date
+  captions: z.boolean().optional(),
+  // Only these pages are merged; all of them when left out
+  pages: pageSelectionSchema.optional(),
+})
+
+// 'lenient' stands in an error page for anything that can't be merged,
+// 'strict' fails the whole packet instead
+export const packetModeSchema = z.enum(['strict', 'lenient'])
+
+export const pageNumberPositionSchema = z.enum([
+  'bottom-right', 'bottom-center', 'bottom-left',
+  'top-right', 'top-center', 'top-left',
+])
+
+// Page number stamping. `format` tokens: {n} packet page, {total} packet
+// pages, {section} section number, {sectionPage} page within the section
+// (its divider, if any, is page 1) and {sectionTotal} pages in the section.
+export const pageNumberingSchema = z.object({
+  enabled: z.boolean(),
+  format: z.string().min(1).max(60),
+  position: pageNumberPositionSchema,
+  // Distance from the page edges, in points
+  margin: z.number().min(10).max(72),
+  fontSize: z.number().min(6).max(16),
+  skipCover: z.boolean(),
+  // White box behind the number so it stays legible over page content
+  backing: z.boolean(),
+})
+
+export const DEFAULT_PAGE_NUMBERING: PageNumbering = {
+  enabled: true,
+  format: '{n}',
+  position: 'bottom-right',
+  margin: 30,
+  fontSize: 10,
+  skipCover: false,
+  backing: false,
+}
+
+// Project details stamped on every page after the cover so separated
+// printouts can still be matched to their packet. 'split' puts the project on
+// the left, the date in the middle and the section name on the right; 'line'
+// runs them together in one centered line.
+export const runningHeaderSchema = z.object({
+  enabled: z.boolean(),
+  position: z.enum(['top', 'bottom']),
+  layout: z.enum(['split', 'line']),
+  fontSize: z.number().min(6).max(12),
+})
+
+export const DEFAULT_RUNNING_HEADER: RunningHeader = {
+  enabled: false,
+  position: 'top',
+  layout: 'split',
+  fontSize: 8,
+}
+
+// Bates-style submittal identifier such as "06 16 26-003.1": spec section,
+// submittal sequence and revision, stamped on every page. The worker assigns
+// the next sequence for the project number unless one is given, as it is
+// when resubmitting a revision.
+export const submittalNumberingSchema = z.object({
+  enabled: z.boolean(),
+  specSection: z.string().trim().regex(/^\d{2} \d{2} \d{2}$/, 'Spec section must look like "06 16 26"'),
+  sequence: z.number().int().min(1).max(999).optional(),
+  revision: z.number().int().min(0).max(99),
+  position: pageNumberPositionSchema,
+})
+
+export const DEFAULT_SUBMITTAL_NUMBERING: SubmittalNumbering = {
+  enabled: false,
+  specSection: '06 16 26',
+  revision: 0,
+  position: 'top-right',
+}
+
+// Everything chosen on the generate step, as saved with drafts and packet files
+export const generationOptionsSchema = z.object({
+  // Cover template registry id; picked by product when left out
+  coverTemplate: z.string().min(1).optional(),
+  mode: packetModeSchema,
+  // Divider page before each document; packet files from before the option have them
+  dividers: z.boolean().default(true),
+  numbering: pageNumberingSchema,
+  runningHeader: runningHeaderSchema,
+  submittal: submittalNumberingSchema,
+})
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  mode: 'lenient',
+  dividers: true,
+  numbering: DEFAULT_PAGE_NUMBERING,
+  runningHeader: DEFAULT_RUNNING_HEADER,
+  submittal: DEFAULT_SUBMITTAL_NUMBERING,
+}
+
+// One row of the cover page's revision block. The last entry is the revision
+// being generated; earlier ones are the submittals it replaces.
+export const revisionEntrySchema = z.object({
+  revision: z.number().int().min(0).max(99),
+  date: z.string(),
+  description: z.string().max(200).optional(),
+})
+
+export const generatePacketRequestSchema = z.object({
+  projectData: projectDataSchema,
+  documents: z.array(documentRequestSchema).min(1, 'At least one document is required'),
+  // Cover template registry id; picked by product when left out
+  coverTemplate: z.string().min(1).optional(),
+  mode: packetModeSchema.optional(),
+  // Defaults to a divider page before each document
+  dividers: z.boolean().optional(),
+  numbering: pageNumberingSchema.optional(),
+  runningHeader: runningHeaderSchema.optional(),
+  submittal: submittalNumberingSchema.optional(),
+  revisions: z.array(revisionEntrySchema).max(100).optional(),
+}).superRefine((request, ctx) => {
+  if (!request.submittal?.enabled) return
+
+  // Sequences are tracked per project number
+  if (!request.projectData.projectNumber?.trim()) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['projectData', 'projectNumber'],
+      message: 'Project number is required for submittal numbering',
+    })
+  }
+
+  const numbering = request.numbering ?? DEFAULT_PAGE_NUMBERING
+  if (numbering.enabled && numbering.position === request.submittal.position) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['submittal', 'position'],
+      message: 'Submittal number and page numbers must be stamped in different positions',
+    })
+  }
+})
+
+export type ProjectData = z.infer<typeof projectDataSchema>
+export type DocumentRequestSource = z.infer<typeof documentRequestSourceSchema>
+export type DocumentRequest = z.infer<typeof documentRequestSchema>
+export type PacketMode = z.infer<typeof packetModeSchema>
+export type PageNumberPosition = z.infer<typeof pageNumberPositionSchema>
+export type PageNumbering = z.infer<typeof pageNumberingSchema>
+export type RunningHeader = z.infer<typeof runningHeaderSchema>
+export type SubmittalNumbering = z.infer<typeof submittalNumberingSchema>
+export type GenerationOptions = z.infer<typeof generationOptionsSchema>
+export type RevisionEntry = z.infer<typeof revisionEntrySchema>
+export type GeneratePacketRequest = z.infer<typeof generatePacketRequestSchema>
+
+// Multipart requests carry the JSON request in this field and each upload
+// in a file field named by uploadFieldName(document id)
+export const PACKET_REQUEST_FIELD = 'request'
+
+export function uploadFieldName(documentId: string): string {
+  return `upload:${documentId}`
+}
+
+// Field path (e.g. "projectData.status.forReview") to its error messages
+export type FieldErrors = Record<string, string[]>
+
+export function getFieldErrors(error: z.ZodError): FieldErrors {
+  const fieldErrors: FieldErrors = {}
+  for (const issue of error.issues) {
+    const field = issue.path.join('.') || '(root)'
+    ;(fieldErrors[field] ||= []).push(issue.message)
+  }
+  return fieldErrors
+}
@@ -1,5 +1,5 @@
-import { useState, useEffect, useCallback } from 'react'
-import { Routes, Route, Navigate } from 'react-router-dom'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { Routes, Route, Navigate, useLocation, useNavigate } from 'react-router-dom'
 import { motion, AnimatePresence } from 'framer-motion'
 
 // Components
@@ -9,31 +9,167 @@ import ProjectForm from '@/components/steps/ProjectForm'
 import DocumentOrdering from '@/components/steps/DocumentOrdering'
 import PacketGeneration from '@/components/steps/PacketGeneration'
 import ThemeProvider from '@/components/ThemeProvider'
+import ResubmittalPanel from '@/components/ResubmittalPanel'
+import PacketLibrary from '@/components/PacketLibrary'
+import CatalogAdmin from '@/components/CatalogAdmin'
 
 // Types
-import type { AppState, ProjectFormData, SelectedDocument } from '@/types'
+import type { AppState, Draft, DraftState, GenerationOptions, ProjectFormData, SavedPacket, SelectedDocument } from '@/types'
+import { DEFAULT_GENERATION_OPTIONS, DEFAULT_SUBMITTAL_NUMBERING } from '@shared/schema'
 
 // Utils
 import { storage } from '@/utils'
+import { uploadStore } from '@/services/uploadStore'
+import { draftStore, toDraftState, LEGACY_STATE_KEY } from '@/services/draftStore'
 
-const STORAGE_KEY = 'pdf-packet-builder-state'
+const ACTIVE_DRAFT_KEY = 'pdf-packet-builder-active-draft'
+const PREFERENCES_KEY = 'pdf-packet-builder-preferences'
+
+// Edits are written to the open draft once they pause for this long
+const SAVE_DELAY_MS = 300
+
+interface Preferences {
+  darkMode: boolean
+}
+
+// The draft being edited. A new packet has no draft until there is something to keep.
+interface DraftSession {
+  draftId: string | null
+  // Last state written, as JSON, so unchanged state isn't written again
+  lastSaved: string
+  // State waiting for SAVE_DELAY_MS to pass
+  pending: DraftState | null
+}
+
+const emptyDraftState: DraftState = {
+  currentStep: 1,
+  formData: {},
+  selectedDocuments: [],
+  generationOptions: DEFAULT_GENERATION_OPTIONS,
+}
+
+// Uploaded files don't survive a reload, so neither do their entries
+function withAvailableUploads(documents: SelectedDocument[]): SelectedDocument[] {
+  return documents.filter(doc => doc.document.source !== 'upload' || uploadStore.has(doc.document.id))
+}
+
+function toAppState(state: DraftState, darkMode: boolean): AppState {
+  return {
+    ...state,
+    selectedDocuments: withAvailableUploads(state.selectedDocuments),
+    isGenerating: false,
+    darkMode,
+  }
+}
 
 function App() {
+  const navigate = useNavigate()
+  const location = useLocation()
+
   const [appState, setAppState] = useState<AppState>(() => {
-    const savedState = storage.get<AppState>(STORAGE_KEY)
-    return {
-      currentStep: savedState?.currentStep || 1,
-      formData: savedState?.formData || {},
-      selectedDocuments: savedState?.selectedDocuments || [],
-      isGenerating: false,
-      darkMode: savedState?.darkMode || false,
-    }
+    // Dark mode used to be saved with the single packet state
+    const darkMode = storage.get<Preferences>(PREFERENCES_KEY)?.darkMode
+      ?? storage.get<AppState>(LEGACY_STATE_KEY)?.darkMode
+      ?? false
+    return toAppState(emptyDraftState, darkMode)
   })
+  const [activeDraftId, setActiveDraftId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const session = useRef<DraftSession>({ draftId: null, lastSaved: '', pending: null })
+  const saveQueue = useRef<Promise<unknown>>(Promise.resolve())
+
+  // Drafts are written one at a time, so a new packet is only created once
+  const persistDraft = (target: DraftSession, state: DraftState) => {
+    target.pending = null
+    const json = JSON.stringify(state)
+    if (json === target.lastSaved) return
+    target.lastSaved = json
+
+    saveQueue.current = saveQueue.current
+      .then(async () => {
+        if (target.draftId) {
+          await draftStore.saveState(target.draftId, state)
+          return
+        }
+        if (!state.formData.projectName && state.selectedDocuments.length === 0) return
+
+        const draft = await draftStore.create(state)
+        target.draftId = draft.id
+        if (session.current === target) {
+          setActiveDraftId(draft.id)
+          storage.set(ACTIVE_DRAFT_KEY, draft.id)
+        }
+      })
+      .catch(error => console.error('Could not save packet draft:', error))
+  }
+
+  // Write anything still waiting, and resolve once it is stored
+  const flushDraft = useCallback(() => {
+    if (session.current.pending) {
+      persistDraft(session.current, session.current.pending)
+    }
+    return saveQueue.current
+  }, [])
+
+  // Open a saved draft, or start a new packet from `state`
+  const switchDraft = (draft: Draft | null, state: DraftState = draft?.state ?? emptyDraftState) => {
+    flushDraft()
+
+    const nextState = toAppState(state, appState.darkMode)
+    session.current = {
+      draftId: draft?.id ?? null,
+      lastSaved: draft ? JSON.stringify(toDraftState(nextState)) : '',
+      pending: null,
+    }
+    setActiveDraftId(draft?.id ?? null)
+    if (draft) {
+      storage.set(ACTIVE_DRAFT_KEY, draft.id)
+    } else {
+      storage.remove(ACTIVE_DRAFT_KEY)
+    }
+    setAppState(nextState)
+  }
+
+  // Reopen the draft that was open last, or the most recently edited one
+  useEffect(() => {
+    let cancelled = false
+    const activeId = storage.get<string>(ACTIVE_DRAFT_KEY)
+
+    draftStore.list()
+      .then(drafts => {
+        const draft = drafts.find(d => d.id === activeId) || drafts[0]
+        if (!cancelled && draft) {
+          switchDraft(draft)
+        }
+      })
+      .catch(error => console.error('Could not load saved packets:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // Save changes to the open draft once editing pauses
+  useEffect(() => {
+    if (isLoading) return
+    const target = session.current
+    target.pending = toDraftState(appState)
+    const timer = setTimeout(() => target.pending && persistDraft(target, target.pending), SAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [appState, isLoading])
+
+  // Leaving the wizard shouldn't wait for the save delay
+  useEffect(() => {
+    flushDraft()
+  }, [location.pathname, flushDraft])
 
-  // Save state to localStorage whenever it changes
   useEffect(() => {
-    storage.set(STORAGE_KEY, appState)
-  }, [appState])
+    storage.set<Preferences>(PREFERENCES_KEY, { darkMode: appState.darkMode })
+  }, [appState.darkMode])
 
   // Update form data with useCallback to prevent infinite loops
   const updateFormData = useCallback((data: Partial<ProjectFormData>) => {
@@ -51,6 +187,13 @@ function App() {
     }))
   }, [])
 
+  const updateGenerationOptions = useCallback((options: Partial<GenerationOptions>) => {
+    setAppState(prev => ({
+      ...prev,
+      generationOptions: { ...prev.generationOptions, ...options }
+    }))
+  }, [])
+
   // Navigate to step
   const goToStep = (step: number) => {
     setAppState(prev => ({
@@ -91,16 +234,55 @@ function App() {
     }))
   }
 
-  // Reset application state
-  const resetApp = () => {
-    setAppState({
+  // Start the next revision of a saved packet, as a new draft, from its form data and documents
+  const startResubmittal = (packet: SavedPacket) => {
+    switchDraft(null, {
       currentStep: 1,
-      formData: {},
-      selectedDocuments: [],
-      isGenerating: false,
-      darkMode: appState.darkMode, // Preserve dark mode preference
+      formData: packet.formData,
+      selectedDocuments: packet.selectedDocuments,
+      // Same options as last time, with the submittal number moved on a revision
+      generationOptions: {
+        ...DEFAULT_GENERATION_OPTIONS,
+        ...packet.generationOptions,
+        submittal: { ...(packet.submittal || DEFAULT_SUBMITTAL_NUMBERING), revision: packet.revision + 1 },
+      },
+      resubmittalOf: packet.id,
     })
-    storage.remove(STORAGE_KEY)
+  }
+
+  const cancelResubmittal = () => {
+    setAppState(prev => ({
+      ...prev,
+      resubmittalOf: undefined,
+      savedPacketId: undefined,
+    }))
+  }
+
+  const handlePacketSaved = (packet: SavedPacket) => {
+    setAppState(prev => ({
+      ...prev,
+      savedPacketId: packet.id
+    }))
+  }
+
+  // Start a new packet; the current one stays in the library
+  const newPacket = () => {
+    switchDraft(null)
+    navigate('/')
+  }
+
+  const openDraft = async (id: string) => {
+    const draft = await draftStore.get(id)
+    if (draft) {
+      switchDraft(draft)
+      navigate('/')
+    }
+  }
+
+  const handleDraftDeleted = (id: string) => {
+    if (id === session.current.draftId) {
+      switchDraft(null)
+    }
   }
 
   const stepComponents = {
@@ -119,7 +301,7 @@ function App() {
               <Layout
                 darkMode={appState.darkMode}
                 onToggleDarkMode={toggleDarkMode}
-                onReset={resetApp}
+                onNewPacket={newPacket}
               >
                 <div className="container mx-auto px-4 py-8 max-w-6xl">
                   {/* Header */}
@@ -137,6 +319,15 @@ function App() {
                     </p>
                   </motion.div>
 
+                  {/* Resubmittals of earlier packets */}
+                  {(appState.currentStep === 1 || appState.resubmittalOf) && (
+                    <ResubmittalPanel
+                      resubmittalOf={appState.resubmittalOf}
+                      onResubmit={startResubmittal}
+                      onCancel={cancelResubmittal}
+                    />
+                  )}
+
                   {/* Step Wizard */}
                   <StepWizard
                     currentStep={appState.currentStep}
@@ -157,7 +348,12 @@ function App() {
                     <AnimatePresence mode="wait">
                       {(() => {
                         const StepComponent = stepComponents[appState.currentStep as keyof typeof stepComponents]
-                        
+
+                        // Wait for the saved draft rather than flash an empty form
+                        if (isLoading) {
+                          return null
+                        }
+
                         if (!StepComponent) {
                           return <Navigate to="/" replace />
                         }
@@ -168,10 +364,15 @@ function App() {
                             selectedDocuments={appState.selectedDocuments}
                             onUpdateFormData={updateFormData}
                             onUpdateSelectedDocuments={updateSelectedDocuments}
+                            generationOptions={appState.generationOptions}
+                            onUpdateGenerationOptions={updateGenerationOptions}
                             onNext={nextStep}
                             onPrevious={prevStep}
                             isGenerating={appState.isGenerating}
                             onSetGenerating={setIsGenerating}
+                            resubmittalOf={appState.resubmittalOf}
+                            savedPacketId={appState.savedPacketId}
+                            onPacketSaved={handlePacketSaved}
                           />
                         )
                       })()}
@@ -193,7 +394,45 @@ function App() {
               </Layout>
             }
           />
-          
+
+          {/* Saved drafts */}
+          <Route
+            path="/packets"
+            element={
+              <Layout
+                darkMode={appState.darkMode}
+                onToggleDarkMode={toggleDarkMode}
+                onNewPacket={newPacket}
+              >
+                <div className="container mx-auto px-4 py-8 max-w-6xl">
+                  <PacketLibrary
+                    activeDraftId={activeDraftId}
+                    beforeLoad={flushDraft}
+                    onOpen={openDraft}
+                    onNew={newPacket}
+                    onDeleted={handleDraftDeleted}
+                  />
+                </div>
+              </Layout>
+            }
+          />
+
+          {/* Document catalog editing, for whoever holds the worker's admin token */}
+          <Route
+            path="/admin"
+            element={
+              <Layout
+                darkMode={appState.darkMode}
+                onToggleDarkMode={toggleDarkMode}
+                onNewPacket={newPacket}
+              >
+                <div className="container mx-auto px-4 py-8 max-w-6xl">
+                  <CatalogAdmin />
+                </div>
+              </Layout>
+            }
+          />
+
           {/* Redirect any other routes to home */}
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
@@ -0,0 +1,379 @@
+import { useEffect, useRef, useState } from 'react'
+import { motion } from 'framer-motion'
+import {
+  ArrowUpTrayIcon,
+  CheckCircleIcon,
+  CloudArrowUpIcon,
+  ExclamationCircleIcon,
+  ExclamationTriangleIcon,
+  PencilSquareIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline'
+import { catalogEntrySchema, type CatalogCheckResult, type CatalogEntry } from '@shared/catalog'
+import { getFieldErrors, type FieldErrors } from '@shared/schema'
+import { catalogAdmin, CatalogAdminError, type AdminCatalog } from '@/services/catalogAdmin'
+import { cn, formatFileSize } from '@/utils'
+
+// Entry fields edited as one comma-separated text box
+type ListField = 'products' | 'supersedes'
+
+function toSlug(text: string): string {
+  return text.toLowerCase().replace(/\.pdf$/, '').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+}
+
+function splitList(text: string): string[] {
+  return text.split(',').map(item => item.trim()).filter(Boolean)
+}
+
+export default function CatalogAdmin() {
+  const [tokenInput, setTokenInput] = useState('')
+  const [catalog, setCatalog] = useState<AdminCatalog | null>(null)
+  const [entries, setEntries] = useState<CatalogEntry[]>([])
+  const [isDirty, setIsDirty] = useState(false)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [checks, setChecks] = useState<Record<string, CatalogCheckResult>>({})
+  const [publishErrors, setPublishErrors] = useState<FieldErrors>({})
+
+  // Index of the entry being edited, and whether it was just added from an upload
+  const [editing, setEditing] = useState<{ index: number; isNew: boolean } | null>(null)
+  const [draft, setDraft] = useState<CatalogEntry | null>(null)
+  const [draftLists, setDraftLists] = useState<Record<ListField, string>>({ products: '', supersedes: '' })
+  const [draftErrors, setDraftErrors] = useState<FieldErrors>({})
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Run an admin request, showing its error instead of throwing
+  const run = async (label: string, action: () => Promise<void>) => {
+    setBusy(label)
+    setError(null)
+    setMessage(null)
+    try {
+      await action()
+    } catch (requestError) {
+      console.error(`${label} failed:`, requestError)
+      if (requestError instanceof CatalogAdminError && requestError.status === 401) {
+        catalogAdmin.token = null
+        setCatalog(null)
+      }
+      if (requestError instanceof CatalogAdminError && requestError.status === 422) {
+        setPublishErrors(requestError.fieldErrors)
+      }
+      setError(requestError instanceof Error ? requestError.message : `${label} failed`)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const loadCatalog = () => run('Loading catalog', async () => {
+    const loaded = await catalogAdmin.load()
+    setCatalog(loaded)
+    setEntries(loaded.entries)
+    setIsDirty(false)
+    setChecks({})
+    setPublishErrors({})
+  })
+
+  useEffect(() => {
+    if (catalogAdmin.token) loadCatalog()
+  }, [])
+
+  const signIn = (e: React.FormEvent) => {
+    e.preventDefault()
+    catalogAdmin.token = tokenInput.trim()
+    setTokenInput('')
+    loadCatalog()
+  }
+
+  const startEdit = (entry: CatalogEntry, index: number, isNew = false) => {
+    setEditing({ index, isNew })
+    setDraft(entry)
+    setDraftLists({ products: entry.products.join(', '), supersedes: (entry.supersedes || []).join(', ') })
+    setDraftErrors({})
+  }
+
+  const cancelEdit = () => {
+    setEditing(null)
+    setDraft(null)
+  }
+
+  const saveEdit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editing || !draft) return
+
+    const supersedes = splitList(draftLists.supersedes)
+    const candidate = {
+      ...draft,
+      products: splitList(draftLists.products),
+      supersedes: supersedes.length > 0 ? supersedes : undefined,
+      version: draft.version || undefined,
+      effectiveDate: draft.effectiveDate || undefined,
+      expires: draft.expires || undefined,
+    }
+    const validation = catalogEntrySchema.safeParse(candidate)
+    const fieldErrors = validation.success ? {} : getFieldErrors(validation.error)
+    if (entries.some((entry, index) => index !== editing.index && entry.id === candidate.id)) {
+      fieldErrors.id = [...(fieldErrors.id || []), `Another document already uses the id ${candidate.id}`]
+    }
+    if (!validation.success || Object.keys(fieldErrors).length > 0) {
+      setDraftErrors(fieldErrors)
+      return
+    }
+
+    setEntries(editing.isNew
+      ? [...entries, validation.data]
+      : entries.map((entry, index) => index === editing.index ? validation.data : entry))
+    setIsDirty(true)
+    cancelEdit()
+  }
+
+  const removeEntry = (entry: CatalogEntry) => {
+    if (!window.confirm(`Remove "${entry.name}" from the catalog? Saved packets that use it will no longer resolve it.`)) return
+    setEntries(entries.filter(existing => existing !== entry))
+    setIsDirty(true)
+  }
+
+  const handleUpload = (file: File) => run('Uploading', async () => {
+    const stored = await catalogAdmin.uploadFile(file)
+    const name = stored.title || file.name.replace(/\.pdf$/i, '')
+    startEdit({
+      id: toSlug(name),
+      name,
+      description: '',
+      filename: stored.filename,
+      url: stored.url,
+      size: stored.size,
+      pageCount: stored.pageCount,
+      type: '',
+      required: false,
+      products: entries[0]?.products || [],
+    }, entries.length, true)
+    setMessage(stored.encrypted
+      ? `${stored.filename} is encrypted; packets cannot merge it until it is replaced with an unencrypted copy.`
+      : `Stored ${stored.filename} (${stored.pageCount} pages). Fill in its details to add it.`)
+  })
+
+  const checkFiles = () => run('Checking files', async () => {
+    const results = await catalogAdmin.check(entries)
+    setChecks(Object.fromEntries(results.map(result => [result.id, result])))
+    const failed = results.filter(result => !result.ok).length
+    const warned = results.filter(result => result.ok && result.warning).length
+    setMessage(failed > 0
+      ? `${failed} document${failed !== 1 ? 's' : ''} failed the check`
+      : warned > 0
+        ? `Every document resolves and loads; ${warned} ha${warned !== 1 ? 've' : 's'} warnings`
+        : 'Every document resolves and loads')
+  })
+
+  const publish = () => run('Publishing', async () => {
+    setPublishErrors({})
+    const published = await catalogAdmin.publish(entries)
+    setEntries(published)
+    setIsDirty(false)
+    setMessage(`Published ${published.length} documents`)
+  })
+
+  const types = Array.from(new Set(entries.map(entry => entry.type))).sort()
+
+  if (!catalogAdmin.token || !catalog) {
+    return (
+      <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="card p-8 max-w-md mx-auto">
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Catalog Admin</h2>
+        <p className="text-gray-600 dark:text-gray-400 mb-6">Enter the admin token configured on the worker.</p>
+        <form onSubmit={signIn} className="flex flex-col gap-4">
+          <input
+            type="password"
+            value={tokenInput}
+            onChange={(e) => setTokenInput(e.target.value)}
+            placeholder="Admin token"
+            className="form-input bg-white dark:bg-gray-700"
+            autoFocus
+          />
+          <button type="submit" disabled={!tokenInput.trim() || !!busy} className="btn btn-primary">
+            {busy || 'Sign in'}
+          </button>
+        </form>
+        {error && <p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </motion.div>
+    )
+  }
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="card p-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Catalog Admin</h2>
+          <p className="text-gray-600 dark:text-gray-400">
+            {entries.length} documents in the {catalog.source} store
+            {isDirty && <span className="ml-2 text-amber-600 dark:text-amber-400">• Unpublished changes</span>}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!catalog.writable || !!busy}
+            className="btn btn-outline flex items-center gap-2"
+          >
+            <ArrowUpTrayIcon className="w-5 h-5" />
+            Add PDF
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/pdf,.pdf"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              e.target.value = ''
+              if (file) handleUpload(file)
+            }}
+          />
+          <button onClick={checkFiles} disabled={!!busy} className="btn btn-outline">
+            Check files
+          </button>
+          <button
+            onClick={publish}
+            disabled={!catalog.writable || !!busy || !!editing}
+            className="btn btn-primary flex items-center gap-2"
+          >
+            <CloudArrowUpIcon className="w-5 h-5" />
+            Publish
+          </button>
+        </div>
+      </div>
+
+      {!catalog.writable && (
+        <p className="mb-4 text-sm text-amber-700 dark:text-amber-300">
+          The worker reads documents from its {catalog.source} store, which can't be written. Files can be checked, but
+          publishing needs DOCUMENT_SOURCE set to "r2" or "kv".
+        </p>
+      )}
+      {busy && <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">{busy}...</p>}
+      {error && <p className="mb-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+      {message && <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">{message}</p>}
+
+      {editing && draft && (
+        <form onSubmit={saveEdit} className="mb-6 p-6 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+            {editing.isNew ? 'New document' : `Edit ${draft.name}`}
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            {draft.filename} • {formatFileSize(draft.size)}{draft.pageCount ? ` • ${draft.pageCount} pages` : ''}
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {([
+              ['id', 'Id', editing.isNew ? '' : 'Changing the id breaks saved packets that use this document'],
+              ['name', 'Name', ''],
+              ['type', 'Type', ''],
+              ['version', 'Version', ''],
+              ['effectiveDate', 'Effective date', 'YYYY-MM-DD'],
+              ['expires', 'Expires', 'YYYY-MM-DD'],
+            ] as const).map(([field, label, hint]) => (
+              <label key={field} className="flex flex-col gap-1">
+                <span className="form-label text-sm font-medium">{label}</span>
+                <input
+                  value={draft[field] || ''}
+                  onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                  list={field === 'type' ? 'catalog-types' : undefined}
+                  className={cn('form-input bg-white dark:bg-gray-700', draftErrors[field] && 'border-red-500')}
+                />
+                {hint && <span className="text-xs text-gray-500 dark:text-gray-400">{hint}</span>}
+                {draftErrors[field] && <span className="text-sm text-red-500">{draftErrors[field].join(', ')}</span>}
+              </label>
+            ))}
+            <datalist id="catalog-types">
+              {types.map(type => <option key={type} value={type} />)}
+            </datalist>
+            <label className="flex flex-col gap-1 md:col-span-2">
+              <span className="form-label text-sm font-medium">Description</span>
+              <textarea
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                rows={2}
+                className="form-input bg-white dark:bg-gray-700"
+              />
+            </label>
+            {([
+              ['products', 'Products', 'Comma-separated'],
+              ['supersedes', 'Supersedes', 'Comma-separated ids of the versions this replaces'],
+            ] as const).map(([field, label, hint]) => (
+              <label key={field} className="flex flex-col gap-1">
+                <span className="form-label text-sm font-medium">{label}</span>
+                <input
+                  value={draftLists[field]}
+                  onChange={(e) => setDraftLists({ ...draftLists, [field]: e.target.value })}
+                  className={cn('form-input bg-white dark:bg-gray-700', draftErrors[field] && 'border-red-500')}
+                />
+                <span className="text-xs text-gray-500 dark:text-gray-400">{hint}</span>
+              </label>
+            ))}
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={draft.required}
+                onChange={(e) => setDraft({ ...draft, required: e.target.checked })}
+                className="w-5 h-5 text-cyan-600 border-gray-300 rounded focus:ring-cyan-500"
+              />
+              <span className="text-sm text-gray-700 dark:text-gray-300">Required in every packet</span>
+            </label>
+          </div>
+          <div className="flex justify-end gap-2 mt-6">
+            <button type="button" onClick={cancelEdit} className="btn btn-ghost">Cancel</button>
+            <button type="submit" className="btn btn-primary">{editing.isNew ? 'Add document' : 'Save changes'}</button>
+          </div>
+        </form>
+      )}
+
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {entries.map((entry, index) => {
+          const check = checks[entry.id]
+          const problems = publishErrors[entry.id]
+
+          return (
+            <li key={`${entry.id}-${index}`} className="flex flex-wrap items-center justify-between gap-4 py-4">
+              <div className="min-w-0 flex-1">
+                <p className="font-medium text-gray-900 dark:text-white truncate">
+                  {entry.name}
+                  <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">{entry.id}</span>
+                </p>
+                <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                  {entry.type} • {formatFileSize(entry.size)}
+                  {entry.pageCount ? ` • ${entry.pageCount} pages` : ''}
+                  {entry.version ? ` • Version ${entry.version}` : ''}
+                  {entry.required ? ' • Required' : ''}
+                  {' • '}{entry.filename}
+                </p>
+                {check && (
+                  <p className={cn('flex items-center gap-1 text-sm', check.ok ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400')}>
+                    {check.ok ? <CheckCircleIcon className="w-4 h-4" /> : <ExclamationCircleIcon className="w-4 h-4" />}
+                    {check.ok ? (check.pageCount !== undefined ? `Loads (${check.pageCount} pages)` : 'Loads') : check.error}
+                  </p>
+                )}
+                {check?.ok && check.warning && (
+                  <p className="flex items-center gap-1 text-sm text-amber-600 dark:text-amber-400">
+                    <ExclamationTriangleIcon className="w-4 h-4" />
+                    {check.warning}
+                  </p>
+                )}
+                {problems && !check && <p className="text-sm text-red-600 dark:text-red-400">{problems.join(', ')}</p>}
+              </div>
+              <div className="flex items-center gap-1">
+                <button onClick={() => startEdit(entry, index)} disabled={!!editing} className="btn btn-ghost btn-sm p-2" title="Edit">
+                  <PencilSquareIcon className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => removeEntry(entry)}
+                  disabled={!!editing}
+                  className="btn btn-ghost btn-sm p-2 hover:bg-red-50 hover:text-red-600 dark:hover:bg-red-900/20 dark:hover:text-red-400"
+                  title="Remove"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+    </motion.div>
+  )
+}
@@ -1,20 +1,21 @@
 import React from 'react'
 import { motion } from 'framer-motion'
-import { SunIcon, MoonIcon, ArrowPathIcon } from '@heroicons/react/24/outline'
+import { Link } from 'react-router-dom'
+import { SunIcon, MoonIcon, PlusIcon, FolderOpenIcon } from '@heroicons/react/24/outline'
 import { cn } from '@/utils'
 
 interface LayoutProps {
   children: React.ReactNode
   darkMode: boolean
   onToggleDarkMode: () => void
-  onReset: () => void
+  onNewPacket: () => void
 }
 
 export default function Layout({ 
   children,
   darkMode, 
   onToggleDarkMode,
-  onReset 
+  onNewPacket
 }: LayoutProps) {
   return (
     <div className="min-h-screen relative overflow-hidden">
@@ -79,18 +80,27 @@ export default function Layout({
               transition={{ duration: 0.6, delay: 0.2 }}
               className="flex items-center space-x-3"
             >
-              {/* Reset Button */}
+              {/* Saved Packets */}
+              <Link
+                to="/packets"
+                className="btn btn-ghost btn-sm hidden sm:flex"
+                title="Saved Packets"
+              >
+                <FolderOpenIcon className="w-4 h-4 mr-2" />
+                Saved Packets
+              </Link>
+
+              {/* New Packet Button */}
               <button
-                onClick={onReset}
+                onClick={onNewPacket}
                 className={cn(
                   "btn btn-ghost btn-sm",
-                  "hidden sm:flex",
-                  "hover:bg-red-50 hover:text-red-600 dark:hover:bg-red-900/20 dark:hover:text-red-400"
+                  "hidden sm:flex"
                 )}
-                title="Reset Application"
+                title="Start a New Packet"
               >
-                <ArrowPathIcon className="w-4 h-4 mr-2" />
-                Reset
+                <PlusIcon className="w-4 h-4 mr-2" />
+                New Packet
               </button>
 
               {/* Theme Toggle */}
@@ -139,12 +149,27 @@ export default function Layout({
         </div>
       </footer>
 
-      {/* Mobile Reset Button */}
+      {/* Mobile Saved Packets Link */}
+      <Link
+        to="/packets"
+        className={cn(
+          "fixed bottom-32 left-6 z-50",
+          "btn btn-secondary btn-sm",
+          "sm:hidden",
+          "shadow-lg hover:shadow-xl",
+          "backdrop-blur-sm"
+        )}
+        title="Saved Packets"
+      >
+        <FolderOpenIcon className="w-4 h-4" />
+      </Link>
+
+      {/* Mobile New Packet Button */}
       <motion.button
         initial={{ opacity: 0, scale: 0 }}
         animate={{ opacity: 1, scale: 1 }}
         transition={{ delay: 1, duration: 0.3 }}
-        onClick={onReset}
+        onClick={onNewPacket}
         className={cn(
           "fixed bottom-20 left-6 z-50",
           "btn btn-secondary btn-sm",
@@ -152,9 +177,9 @@ export default function Layout({
           "shadow-lg hover:shadow-xl",
           "backdrop-blur-sm"
         )}
-        title="Reset Application"
+        title="Start a New Packet"
       >
-        <ArrowPathIcon className="w-4 h-4" />
+        <PlusIcon className="w-4 h-4" />
       </motion.button>
     </div>
   )
@@ -0,0 +1,53 @@
+import { ArrowPathIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import { formatDocumentVersion } from '@shared/catalog'
+import type { OutdatedDocument } from '@/services/documentVersions'
+
+interface OutdatedDocumentsNoticeProps {
+  outdated: OutdatedDocument[]
+  onUpgrade: (items: OutdatedDocument[]) => void
+}
+
+export default function OutdatedDocumentsNotice({ outdated, onUpgrade }: OutdatedDocumentsNoticeProps) {
+  if (outdated.length === 0) return null
+
+  const upgradable = outdated.filter(item => item.latest)
+
+  return (
+    <div className="mb-8 p-4 bg-amber-50 dark:bg-amber-900/20 rounded-lg border border-amber-200 dark:border-amber-800">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-3">
+        <h3 className="flex items-center gap-2 font-semibold text-amber-800 dark:text-amber-200">
+          <ExclamationTriangleIcon className="w-5 h-5" />
+          Outdated documents in this packet
+        </h3>
+        {upgradable.length > 1 && (
+          <button onClick={() => onUpgrade(upgradable)} className="btn btn-outline btn-sm flex items-center gap-1">
+            <ArrowPathIcon className="w-4 h-4" />
+            Upgrade all
+          </button>
+        )}
+      </div>
+      <ul className="space-y-2">
+        {outdated.map(item => {
+          const { document } = item.selected
+          const version = formatDocumentVersion(document)
+
+          return (
+            <li key={item.selected.id} className="flex flex-wrap items-center justify-between gap-2 text-sm text-amber-700 dark:text-amber-300">
+              <span>
+                {document.name}{version && ` (${version})`}
+                {item.latest && ` has been superseded by ${item.latest.name}${item.latest.version ? ` version ${item.latest.version}` : ''}`}
+                {item.latest && item.expired && ' and'}
+                {item.expired && ` expired on ${item.expired}`}
+              </span>
+              {item.latest && (
+                <button onClick={() => onUpgrade([item])} className="btn btn-outline btn-sm">
+                  Upgrade
+                </button>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,240 @@
+import { useEffect, useRef, useState } from 'react'
+import { motion } from 'framer-motion'
+import {
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  DocumentDuplicateIcon,
+  FolderOpenIcon,
+  PencilSquareIcon,
+  PlusIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline'
+import { draftStore, getDraftName } from '@/services/draftStore'
+import { exportPacket, importPacket, PACKET_FILE_EXTENSION, type PacketFileDocument } from '@/services/packetFile'
+import type { Draft } from '@/types'
+import { cn } from '@/utils'
+
+interface PacketLibraryProps {
+  activeDraftId: string | null
+  // Resolves once edits to the open draft are stored, so the list is current
+  beforeLoad: () => Promise<unknown>
+  onOpen: (id: string) => void
+  onNew: () => void
+  onDeleted: (id: string) => void
+}
+
+const stepLabels: Record<number, string> = {
+  1: 'Project details',
+  2: 'Arranging documents',
+  3: 'Ready to generate',
+}
+
+interface ImportReport {
+  name: string
+  missing: PacketFileDocument[]
+  changed: PacketFileDocument[]
+}
+
+export default function PacketLibrary({ activeDraftId, beforeLoad, onOpen, onNew, onDeleted }: PacketLibraryProps) {
+  const [drafts, setDrafts] = useState<Draft[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editName, setEditName] = useState('')
+  const [importReport, setImportReport] = useState<ImportReport | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const loadDrafts = async () => {
+    try {
+      await beforeLoad()
+      setDrafts(await draftStore.list())
+    } catch (loadError) {
+      console.error('Could not load saved packets:', loadError)
+      setError('Saved packets could not be loaded. Your browser may be blocking site storage.')
+    }
+  }
+
+  useEffect(() => {
+    loadDrafts()
+  }, [])
+
+  const startRename = (draft: Draft) => {
+    setEditingId(draft.id)
+    setEditName(getDraftName(draft))
+  }
+
+  const handleRename = async (id: string) => {
+    setEditingId(null)
+    await draftStore.rename(id, editName)
+    await loadDrafts()
+  }
+
+  const handleDuplicate = async (id: string) => {
+    await draftStore.duplicate(id)
+    await loadDrafts()
+  }
+
+  const handleDelete = async (draft: Draft) => {
+    if (!window.confirm(`Delete "${getDraftName(draft)}"? This cannot be undone.`)) return
+    await draftStore.delete(draft.id)
+    onDeleted(draft.id)
+    await loadDrafts()
+  }
+
+  const handleExport = (draft: Draft) => {
+    const { skippedUploads } = exportPacket(draft, getDraftName(draft))
+    if (skippedUploads > 0) {
+      alert(`${skippedUploads} uploaded file${skippedUploads !== 1 ? 's were' : ' was'} left out of the export. Uploads stay in this browser.`)
+    }
+  }
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = await importPacket(file)
+      const draft = await draftStore.create(imported.state, imported.name)
+      setImportReport({ name: getDraftName(draft), missing: imported.missing, changed: imported.changed })
+      await loadDrafts()
+    } catch (importError) {
+      console.error('Could not import packet file:', importError)
+      alert(importError instanceof Error ? importError.message : 'The packet file could not be imported.')
+    }
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="card p-8"
+    >
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Saved Packets</h2>
+          <p className="text-gray-600 dark:text-gray-400">Packets in progress are saved in this browser as you work.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => fileInputRef.current?.click()} className="btn btn-outline flex items-center gap-2">
+            <ArrowUpTrayIcon className="w-5 h-5" />
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={`${PACKET_FILE_EXTENSION},application/json`}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              e.target.value = ''
+              if (file) handleImport(file)
+            }}
+          />
+          <button onClick={onNew} className="btn btn-primary flex items-center gap-2">
+            <PlusIcon className="w-5 h-5" />
+            New Packet
+          </button>
+        </div>
+      </div>
+
+      {importReport && (
+        <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+          <div className="flex items-start justify-between gap-4">
+            <p className="font-medium text-gray-900 dark:text-white">Imported "{importReport.name}"</p>
+            <button onClick={() => setImportReport(null)} className="btn btn-ghost btn-sm">Dismiss</button>
+          </div>
+          {importReport.missing.length === 0 && importReport.changed.length === 0 && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">All documents matched the current catalog.</p>
+          )}
+          {importReport.missing.length > 0 && (
+            <div className="mt-2 text-sm text-red-600 dark:text-red-400">
+              <p>No longer in the catalog, left out of the packet:</p>
+              <ul className="list-disc list-inside">
+                {importReport.missing.map(doc => <li key={doc.id}>{doc.name} ({doc.type})</li>)}
+              </ul>
+            </div>
+          )}
+          {importReport.changed.length > 0 && (
+            <div className="mt-2 text-sm text-amber-600 dark:text-amber-400">
+              <p>Updated in the catalog since export, the current version will be used:</p>
+              <ul className="list-disc list-inside">
+                {importReport.changed.map(doc => <li key={doc.id}>{doc.name} ({doc.type})</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+
+      {!error && drafts?.length === 0 && (
+        <p className="text-gray-500 dark:text-gray-400">No saved packets yet. Start a new packet and it will appear here.</p>
+      )}
+
+      {drafts && drafts.length > 0 && (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {drafts.map(draft => {
+            const { formData, selectedDocuments, currentStep } = draft.state
+            const documentCount = selectedDocuments.filter(doc => doc.selected).length
+
+            return (
+              <li key={draft.id} className="flex flex-wrap items-center justify-between gap-4 py-4">
+                <div className="min-w-0 flex-1">
+                  {editingId === draft.id ? (
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault()
+                        handleRename(draft.id)
+                      }}
+                    >
+                      <input
+                        autoFocus
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        onBlur={() => handleRename(draft.id)}
+                        onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                        className="form-input w-full bg-white dark:bg-gray-700"
+                      />
+                    </form>
+                  ) : (
+                    <p className="font-medium text-gray-900 dark:text-white truncate">
+                      {getDraftName(draft)}
+                      {draft.id === activeDraftId && (
+                        <span className="ml-2 text-xs font-normal text-primary-600 dark:text-primary-400">Open</span>
+                      )}
+                    </p>
+                  )}
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {[formData.projectName, formData.projectNumber].filter(Boolean).join(' • ') || 'No project details yet'}
+                    {' • '}{documentCount} document{documentCount !== 1 ? 's' : ''}
+                    {' • '}{stepLabels[currentStep] || `Step ${currentStep}`}
+                    {' • '}Edited {new Date(draft.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-1">
+                  <button onClick={() => onOpen(draft.id)} className="btn btn-outline btn-sm flex items-center gap-1">
+                    <FolderOpenIcon className="w-4 h-4" />
+                    Open
+                  </button>
+                  <button onClick={() => startRename(draft)} className="btn btn-ghost btn-sm p-2" title="Rename">
+                    <PencilSquareIcon className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDuplicate(draft.id)} className="btn btn-ghost btn-sm p-2" title="Duplicate">
+                    <DocumentDuplicateIcon className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleExport(draft)} className="btn btn-ghost btn-sm p-2" title="Export packet file">
+                    <ArrowDownTrayIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(draft)}
+                    className={cn('btn btn-ghost btn-sm p-2', 'hover:bg-red-50 hover:text-red-600 dark:hover:bg-red-900/20 dark:hover:text-red-400')}
+                    title="Delete"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </motion.div>
+  )
+}
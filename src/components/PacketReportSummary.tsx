@@ -0,0 +1,94 @@
+import { motion } from 'framer-motion'
+import { CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import type { PacketReport } from '@/types'
+import { cn, formatFileSize } from '@/utils'
+
+interface PacketReportSummaryProps {
+  report: PacketReport
+}
+
+export default function PacketReportSummary({ report }: PacketReportSummaryProps) {
+  const documentWarnings = report.documents.flatMap(doc => doc.warnings.map(warning => `${doc.name}: ${warning}`))
+  const allWarnings = [...report.warnings, ...documentWarnings]
+  const hasProblems = report.errorPages > 0 || allWarnings.length > 0
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={cn(
+        'rounded-lg border p-4',
+        hasProblems
+          ? 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800'
+          : 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800'
+      )}
+    >
+      <div className="flex items-center gap-2 mb-3">
+        {hasProblems ? (
+          <ExclamationTriangleIcon className="w-5 h-5 text-amber-600 dark:text-amber-400" />
+        ) : (
+          <CheckCircleIcon className="w-5 h-5 text-green-600 dark:text-green-400" />
+        )}
+        <h4 className="font-semibold text-gray-900 dark:text-white">
+          {report.errorPages > 0
+            ? `Packet contains ${report.errorPages} error page${report.errorPages !== 1 ? 's' : ''}`
+            : hasProblems
+              ? 'Packet generated with warnings'
+              : 'All documents merged successfully'}
+        </h4>
+      </div>
+
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+        {report.submittalId && <>Submittal {report.submittalId} • </>}
+        {report.totalPages} pages • {report.documents.length} documents • generated in {(report.durationMs / 1000).toFixed(1)}s
+      </p>
+
+      {allWarnings.length > 0 && (
+        <ul className="mb-4 space-y-1 text-sm text-amber-800 dark:text-amber-200 list-disc list-inside">
+          {allWarnings.map((warning, index) => (
+            <li key={index}>{warning}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-gray-500 dark:text-gray-400 uppercase">
+            <tr>
+              <th className="py-2 pr-4">Document</th>
+              <th className="py-2 pr-4">Pages</th>
+              <th className="py-2 pr-4">Failed</th>
+              <th className="py-2 pr-4">Size</th>
+              <th className="py-2 pr-4">Time</th>
+            </tr>
+          </thead>
+          <tbody className="text-gray-700 dark:text-gray-300">
+            {report.documents.map(doc => (
+              <tr key={doc.id} className="border-t border-gray-200/70 dark:border-gray-700/70">
+                <td className="py-2 pr-4">
+                  {doc.name}
+                  {doc.encrypted && (
+                    <span className="ml-2 text-xs px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300">
+                      Encrypted
+                    </span>
+                  )}
+                </td>
+                <td className="py-2 pr-4">
+                  {doc.pagesCopied}/{doc.pageCount}
+                  {doc.pageSelection && (
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">Pages {doc.pageSelection}</span>
+                  )}
+                </td>
+                <td className={cn('py-2 pr-4', doc.pagesFailed > 0 && 'text-red-600 dark:text-red-400 font-medium')}>
+                  {doc.pagesFailed}
+                </td>
+                <td className="py-2 pr-4">{formatFileSize(doc.fetchedBytes)}</td>
+                <td className="py-2 pr-4">{(doc.durationMs / 1000).toFixed(1)}s</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </motion.div>
+  )
+}
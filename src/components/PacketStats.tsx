@@ -1,6 +1,13 @@
 import { motion } from 'framer-motion'
 import type { SelectedDocument, ProjectFormData } from '@/types'
-import { formatFileSize } from '@/utils'
+import { describePageSelection, estimateSelectedSize, formatFileSize, getSelectedPageCount } from '@/utils'
+
+const statusLabels: Record<keyof ProjectFormData['status'], string> = {
+  forReview: 'For Review',
+  forApproval: 'For Approval',
+  forRecord: 'For Record',
+  forInformationOnly: 'For Information Only',
+}
 
 interface PacketStatsProps {
   selectedDocuments: SelectedDocument[]
@@ -18,12 +25,23 @@ export default function PacketStats({
   // Calculate statistics
   const selectedDocs = selectedDocuments.filter(doc => doc.selected)
   const totalDocuments = selectedDocs.length
-  const totalSize = selectedDocs.reduce((sum, doc) => sum + (doc.document.size || 0), 0)
+  // Page selections only keep part of a document, so sizes are scaled to the pages kept
+  const totalSize = selectedDocs.reduce((sum, doc) => sum + estimateSelectedSize(doc), 0)
   const estimatedFinalSize = totalSize + (totalDocuments * 50000) // Add overhead for cover + dividers
-  
+  // Cover, table of contents and a divider per document, once every page count is known
+  const pageCounts = selectedDocs.map(getSelectedPageCount)
+  const estimatedPages = pageCounts.every(count => count !== undefined)
+    ? 2 + totalDocuments + pageCounts.reduce<number>((sum, count) => sum + (count || 0), 0)
+    : undefined
+  const status = Object.entries(formData.status || {})
+    .filter(([, checked]) => checked)
+    .map(([key]) => statusLabels[key as keyof typeof statusLabels])
+    .join(', ')
+
+
   const stats = [
     {
-      label: 'Documents Selected',
+      label: estimatedPages !== undefined ? `Documents Selected (~${estimatedPages} pages)` : 'Documents Selected',
       value: totalDocuments.toString(),
       color: 'text-blue-600 dark:text-blue-400',
       bgColor: 'bg-blue-50 dark:bg-blue-900/20'
@@ -42,7 +60,7 @@ export default function PacketStats({
     },
     {
       label: 'Project Status',
-      value: isGenerating ? 'Generating...' : (formData.status || 'Draft'),
+      value: isGenerating ? 'Generating...' : (status || 'Draft'),
       color: 'text-amber-600 dark:text-amber-400',
       bgColor: 'bg-amber-50 dark:bg-amber-900/20'
     }
@@ -106,11 +124,14 @@ export function DocumentBreakdown({ selectedDocuments }: DocumentBreakdownProps)
               <span className="text-gray-500 dark:text-gray-400 text-sm w-6 text-center">{index + 1}</span>
               <div className="flex-1 min-w-0">
                 <p className="font-medium text-gray-900 dark:text-white truncate">{doc.document.name}</p>
-                <p className="text-sm text-gray-500 dark:text-gray-400 truncate">{doc.document.description}</p>
+                <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                  {doc.document.description}
+                  {describePageSelection(doc) && ` • ${describePageSelection(doc)}`}
+                </p>
               </div>
             </div>
             <div className="text-sm text-gray-500 dark:text-gray-400 ml-4">
-              {formatFileSize(doc.document.size || 0)}
+              {formatFileSize(estimateSelectedSize(doc))}
             </div>
           </motion.div>
         ))}
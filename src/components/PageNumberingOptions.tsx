@@ -0,0 +1,125 @@
+import { formatPageLabel } from '@shared/numbering'
+import type { PageNumbering, PageNumberPosition } from '@/types'
+
+interface PageNumberingOptionsProps {
+  numbering: PageNumbering
+  onChange: (numbering: PageNumbering) => void
+  disabled?: boolean
+}
+
+const formatPresets = [
+  { label: 'Page number', format: '{n}' },
+  { label: 'Page X of Y', format: 'Page {n} of {total}' },
+  { label: 'Section-page', format: '{section}-{sectionPage}' },
+]
+
+export const pagePositions: Array<{ value: PageNumberPosition; label: string }> = [
+  { value: 'bottom-right', label: 'Bottom right' },
+  { value: 'bottom-center', label: 'Bottom center' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'top-center', label: 'Top center' },
+  { value: 'top-left', label: 'Top left' },
+]
+
+export default function PageNumberingOptions({ numbering, onChange, disabled = false }: PageNumberingOptionsProps) {
+  const update = (changes: Partial<PageNumbering>) => onChange({ ...numbering, ...changes })
+
+  // Example label for the third page of the second section of a 48 page packet
+  const example = formatPageLabel(numbering.format, {
+    n: 17,
+    total: 48,
+    section: { number: 2, page: 3, total: 12 },
+  })
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center gap-3 cursor-pointer">
+        <input type="checkbox" checked={numbering.enabled} disabled={disabled} onChange={e => update({ enabled: e.target.checked })} />
+        <span className="font-medium text-gray-900 dark:text-white">Stamp page numbers</span>
+      </label>
+
+      {numbering.enabled && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Format</label>
+            <div className="flex gap-2">
+              <select
+                value={formatPresets.some(preset => preset.format === numbering.format) ? numbering.format : 'custom'}
+                disabled={disabled}
+                onChange={e => e.target.value !== 'custom' && update({ format: e.target.value })}
+                className="form-input flex-1 bg-white dark:bg-gray-700"
+              >
+                {formatPresets.map(preset => (
+                  <option key={preset.format} value={preset.format}>{preset.label}</option>
+                ))}
+                <option value="custom">Custom</option>
+              </select>
+              <input
+                type="text"
+                value={numbering.format}
+                maxLength={60}
+                disabled={disabled}
+                onChange={e => update({ format: e.target.value })}
+                className="form-input flex-1 bg-white dark:bg-gray-700"
+              />
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Tokens: {'{n}'}, {'{total}'}, {'{section}'}, {'{sectionPage}'}, {'{sectionTotal}'}. Example: “{example}”
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Position</label>
+            <select
+              value={numbering.position}
+              disabled={disabled}
+              onChange={e => update({ position: e.target.value as PageNumberPosition })}
+              className="form-input w-full bg-white dark:bg-gray-700"
+            >
+              {pagePositions.map(position => (
+                <option key={position.value} value={position.value}>{position.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Margin (pt)</label>
+            <input
+              type="number"
+              min={10}
+              max={72}
+              value={numbering.margin}
+              disabled={disabled}
+              onChange={e => update({ margin: Number(e.target.value) })}
+              className="form-input w-full bg-white dark:bg-gray-700"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Font size (pt)</label>
+            <input
+              type="number"
+              min={6}
+              max={16}
+              value={numbering.fontSize}
+              disabled={disabled}
+              onChange={e => update({ fontSize: Number(e.target.value) })}
+              className="form-input w-full bg-white dark:bg-gray-700"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+            <input type="checkbox" checked={numbering.skipCover} disabled={disabled} onChange={e => update({ skipCover: e.target.checked })} />
+            Don't number the submittal form
+          </label>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+            <input type="checkbox" checked={numbering.backing} disabled={disabled} onChange={e => update({ backing: e.target.checked })} />
+            White background behind numbers
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react'
+import { Dialog, DialogPanel, DialogTitle } from '@headlessui/react'
+import { ChevronLeftIcon, ChevronRightIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { getDocumentTypeColor } from '@shared/documentTypes'
+import PageThumbnail from '@/components/PageThumbnail'
+import type { PreviewPage } from '@/services/packetPreview'
+import { cn } from '@/utils'
+
+interface PagePreviewDialogProps {
+  title: string
+  // Builds the pages to show; called once when the dialog opens
+  load: () => Promise<PreviewPage[]>
+  onClose: () => void
+}
+
+const THUMBNAIL_WIDTH = 160
+const ENLARGED_WIDTH = 800
+
+// Pages the worker draws itself are sketched rather than rendered
+function PageSketch({ page }: { page: PreviewPage }) {
+  switch (page.kind) {
+    case 'generated-cover':
+      return (
+        <div className="p-2 text-left text-gray-700">
+          <p className="text-[10px] font-bold text-cyan-600">NEXGEN</p>
+          {page.title.map((line, index) => <p key={index} className="text-[8px] mt-1">{line}</p>)}
+          <p className="text-[7px] text-gray-500 mt-2">Project details and submittal checkboxes</p>
+        </div>
+      )
+    case 'toc':
+      return (
+        <div className="p-2 text-left text-[8px] leading-tight text-gray-700">
+          <p className="font-bold text-[9px] mb-1 text-center">Table of Contents</p>
+          {page.entries.map((entry, index) => (
+            <p key={index} className="flex justify-between gap-1">
+              <span className="truncate">{entry.name}</span>
+              <span>{entry.startPage}</span>
+            </p>
+          ))}
+        </div>
+      )
+    case 'divider': {
+      // Same type color as the worker prints on the band and tab
+      const color = getDocumentTypeColor(page.type)
+      const typeColor = color ? `rgb(${color.join(', ')})` : 'rgb(0, 153, 204)'
+      return (
+        <div className="relative w-full h-full p-2 pr-5 text-left text-gray-700">
+          <div className="absolute inset-y-0 right-0 w-3 opacity-20" style={{ backgroundColor: typeColor }} />
+          <div className="absolute right-0 w-4 h-6 text-[8px] font-bold text-white flex items-center justify-center" style={{ backgroundColor: typeColor, top: `${10 + ((page.tab - 1) % 8) * 10}%` }}>
+            {page.tab}
+          </div>
+          <p className="text-[7px] font-bold mt-4" style={{ color: typeColor }}>SECTION {page.tab}</p>
+          <p className="text-[10px] font-bold leading-tight line-clamp-3">{page.name}</p>
+          <p className="text-[8px] text-gray-500 mt-1">{page.type}</p>
+          {page.description && <p className="text-[7px] text-gray-600 mt-1 line-clamp-3">{page.description}</p>}
+          {page.version && <p className="text-[7px] text-gray-500 mt-1">Version {page.version}</p>}
+        </div>
+      )
+    }
+    case 'error':
+      return (
+        <div className="p-2 text-center">
+          <p className="text-[10px] font-bold text-red-600">{page.name}</p>
+          <p className="text-[8px] text-red-500 mt-1">{page.message}</p>
+        </div>
+      )
+    default:
+      return null
+  }
+}
+
+function PreviewPageImage({ page, width }: { page: PreviewPage; width: number }) {
+  switch (page.kind) {
+    case 'pdf':
+    case 'cover':
+      return <PageThumbnail url={page.url} pageNumber={page.pageNumber} width={width} alt={page.label} />
+    case 'image':
+      return <PageThumbnail image={page.image} alt={page.label} />
+    default:
+      return (
+        <div className="aspect-[17/22] bg-white rounded flex items-center justify-center overflow-hidden">
+          <PageSketch page={page} />
+        </div>
+      )
+  }
+}
+
+/**
+ * Page thumbnails of a document or a whole packet, rendered in the
+ * browser. Click a page to see it larger.
+ */
+export default function PagePreviewDialog({ title, load, onClose }: PagePreviewDialogProps) {
+  const [pages, setPages] = useState<PreviewPage[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [enlarged, setEnlarged] = useState<number | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    load().then(
+      loaded => !cancelled && setPages(loaded),
+      loadError => !cancelled && setError(loadError instanceof Error ? loadError.message : 'Unknown error')
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const caption = (page: PreviewPage) =>
+    page.packetPage !== undefined ? `${page.packetPage}. ${page.label}` : page.label
+
+  const enlargedPage = enlarged !== null ? pages?.[enlarged] : undefined
+
+  return (
+    <Dialog open onClose={onClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/50" aria-hidden="true" />
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <DialogPanel className="card w-full max-w-5xl max-h-[90vh] flex flex-col p-6">
+          <div className="flex items-center justify-between mb-4">
+            <DialogTitle className="text-lg font-semibold text-gray-900 dark:text-white">
+              {title}
+            </DialogTitle>
+            <button type="button" onClick={onClose} className="btn btn-ghost btn-sm p-2" title="Close preview">
+              <XMarkIcon className="w-5 h-5" />
+            </button>
+          </div>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">Preview failed: {error}</p>}
+          {!pages && !error && <p className="text-sm text-gray-500 dark:text-gray-400">Reading documents...</p>}
+
+          {pages && enlargedPage && enlarged !== null && (
+            <div className="flex-1 min-h-0 flex flex-col">
+              <div className="flex items-center justify-between mb-3">
+                <button type="button" onClick={() => setEnlarged(null)} className="btn btn-outline btn-sm">
+                  All pages
+                </button>
+                <span className="text-sm text-gray-600 dark:text-gray-300">{caption(enlargedPage)}</span>
+                <div className="flex gap-1">
+                  <button
+                    type="button"
+                    onClick={() => setEnlarged(enlarged - 1)}
+                    disabled={enlarged === 0}
+                    className="btn btn-ghost btn-sm p-2"
+                    title="Previous page"
+                  >
+                    <ChevronLeftIcon className="w-5 h-5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEnlarged(enlarged + 1)}
+                    disabled={enlarged === pages.length - 1}
+                    className="btn btn-ghost btn-sm p-2"
+                    title="Next page"
+                  >
+                    <ChevronRightIcon className="w-5 h-5" />
+                  </button>
+                </div>
+              </div>
+              <div className="flex-1 overflow-y-auto">
+                <div className="max-w-2xl mx-auto">
+                  <PreviewPageImage page={enlargedPage} width={ENLARGED_WIDTH} />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {pages && enlarged === null && (
+            <>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                {pages.length} page{pages.length !== 1 ? 's' : ''}. Click a page to see it larger.
+              </p>
+              <div className="grid grid-cols-3 sm:grid-cols-5 lg:grid-cols-6 gap-3 overflow-y-auto p-1">
+                {pages.map((page, index) => (
+                  <button
+                    key={index}
+                    type="button"
+                    onClick={() => setEnlarged(index)}
+                    title={page.excluded ? `${page.label} (not included in the packet)` : page.label}
+                    className={cn(
+                      'p-1 rounded-lg border-2 text-left transition-colors hover:border-cyan-500',
+                      page.kind === 'error' ? 'border-red-300 dark:border-red-700' : 'border-gray-200 dark:border-gray-600',
+                      page.excluded && 'opacity-40'
+                    )}
+                  >
+                    <PreviewPageImage page={page} width={THUMBNAIL_WIDTH} />
+                    <span className="block text-xs text-gray-600 dark:text-gray-300 mt-1 truncate">
+                      {caption(page)}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+        </DialogPanel>
+      </div>
+    </Dialog>
+  )
+}
@@ -0,0 +1,185 @@
+import { useEffect, useState, type ReactNode } from 'react'
+import { CheckIcon } from '@heroicons/react/24/outline'
+import { formatPageRanges, formatPageSelection, MAX_PAGE_NUMBER, parsePageSelection, selectPageIndices } from '@shared/pageRanges'
+import { packetPreview } from '@/services/packetPreview'
+import { uploadStore } from '@/services/uploadStore'
+import PageThumbnail from '@/components/PageThumbnail'
+import { cn } from '@/utils'
+import type { SelectedDocument } from '@/types'
+
+interface PageSelectorProps {
+  selected: SelectedDocument
+  onChange: (pages: string | undefined) => void
+  // Called once the page count has been read from the file
+  onPageCount: (pageCount: number) => void
+  onClose: () => void
+}
+
+interface PageButtonProps {
+  pageNumber: number
+  selected: boolean
+  onToggle: () => void
+  children: ReactNode
+}
+
+function PageButton({ pageNumber, selected, onToggle, children }: PageButtonProps) {
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      aria-pressed={selected}
+      title={selected ? `Leave out page ${pageNumber}` : `Include page ${pageNumber}`}
+      className={cn(
+        'relative p-1 rounded-lg border-2 transition-colors',
+        selected
+          ? 'border-cyan-500 bg-cyan-50 dark:bg-cyan-900/20'
+          : 'border-gray-200 dark:border-gray-600 opacity-50 hover:opacity-80'
+      )}
+    >
+      {children}
+      <span className="block text-xs text-gray-600 dark:text-gray-300 mt-1">{pageNumber}</span>
+      {selected && (
+        <span className="absolute top-2 right-2 w-5 h-5 bg-cyan-500 rounded-full flex items-center justify-center">
+          <CheckIcon className="w-3 h-3 text-white" />
+        </span>
+      )}
+    </button>
+  )
+}
+
+/**
+ * Choose which pages of a document go into the packet, by typing a
+ * selection such as "1-3, 7" or by clicking page thumbnails
+ */
+export default function PageSelector({ selected, onChange, onPageCount, onClose }: PageSelectorProps) {
+  const doc = selected.document
+  const pageCount = doc.pageCount
+  const [text, setText] = useState(selected.pages || '')
+  const [error, setError] = useState<string | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  const images = doc.source === 'upload' && doc.type === 'Photos' ? uploadStore.get(doc.id) : undefined
+
+  // Catalog entries don't always record a page count; read it from the file
+  useEffect(() => {
+    if (pageCount !== undefined) return
+
+    let cancelled = false
+    packetPreview.loadPages(doc).then(loaded => {
+      if (cancelled) return
+      if ('error' in loaded) {
+        setLoadError(loaded.error)
+      } else {
+        onPageCount(loaded.pageCount)
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [doc, pageCount])
+
+  const { indices, outOfRange } = pageCount !== undefined
+    ? selectPageIndices(selected.pages, pageCount)
+    : { indices: [], outOfRange: [] }
+  const selectedPages = new Set(indices.map(index => index + 1))
+
+  const applyText = () => {
+    const trimmed = text.trim()
+    if (!trimmed) {
+      setError(null)
+      onChange(undefined)
+      return
+    }
+    if (!parsePageSelection(trimmed)) {
+      setError(`Use page numbers up to ${MAX_PAGE_NUMBER} and ranges like "1-3, 7"`)
+      return
+    }
+    setError(null)
+    onChange(trimmed)
+  }
+
+  // Clicking a page keeps the selection in page order
+  const togglePage = (pageNumber: number) => {
+    if (!pageCount) return
+    const pages = Array.from({ length: pageCount }, (_, index) => index + 1)
+      .filter(page => page === pageNumber ? !selectedPages.has(page) : selectedPages.has(page))
+    if (pages.length === 0) return
+
+    const pagesSelection = pages.length === pageCount ? undefined : formatPageSelection(pages)
+    setText(pagesSelection || '')
+    setError(null)
+    onChange(pagesSelection)
+  }
+
+  const selectAll = () => {
+    setText('')
+    setError(null)
+    onChange(undefined)
+  }
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+      <div className="flex flex-wrap items-end gap-3 mb-3">
+        <div className="flex-1 min-w-48">
+          <label htmlFor={`pages-${selected.id}`} className="form-label">
+            Pages to include
+          </label>
+          <input
+            id={`pages-${selected.id}`}
+            type="text"
+            value={text}
+            placeholder="All pages, or e.g. 1-3, 7"
+            onChange={(e) => setText(e.target.value)}
+            onBlur={applyText}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') applyText()
+            }}
+            className="form-input w-full bg-white dark:bg-gray-700"
+          />
+        </div>
+        <button type="button" onClick={selectAll} disabled={!selected.pages} className="btn btn-outline btn-sm">
+          All pages
+        </button>
+        <button type="button" onClick={onClose} className="btn btn-outline btn-sm">
+          Done
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400 mb-2">{error}</p>}
+      {outOfRange.length > 0 && (
+        <p className="text-sm text-amber-600 dark:text-amber-400 mb-2">
+          The document has {pageCount} pages, so {formatPageRanges(outOfRange)} will be left out.
+        </p>
+      )}
+      {loadError && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-2">
+          Pages could not be read: {loadError}. You can still type a selection.
+        </p>
+      )}
+
+      {pageCount !== undefined && (
+        <>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+            {selectedPages.size} of {pageCount} page{pageCount !== 1 ? 's' : ''} included. Click a page to include or leave it out.
+          </p>
+          <div className="grid grid-cols-3 sm:grid-cols-5 lg:grid-cols-8 gap-2 max-h-80 overflow-y-auto p-1">
+            {Array.from({ length: pageCount }, (_, index) => index + 1).map(pageNumber => (
+              <PageButton
+                key={pageNumber}
+                pageNumber={pageNumber}
+                selected={selectedPages.has(pageNumber)}
+                onToggle={() => togglePage(pageNumber)}
+              >
+                {images?.[pageNumber - 1] ? (
+                  <PageThumbnail image={images[pageNumber - 1]} alt={`Page ${pageNumber}`} />
+                ) : (
+                  <PageThumbnail url={doc.url} pageNumber={pageNumber} alt={`Page ${pageNumber}`} />
+                )}
+              </PageButton>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+import { useEffect, useRef, useState } from 'react'
+import { pdfThumbnails } from '@/services/pdfThumbnails'
+import { cn } from '@/utils'
+
+type PageThumbnailProps = {
+  alt: string
+  // Width in pixels to render PDF pages at
+  width?: number
+  className?: string
+} & (
+  | { url: string; pageNumber: number; image?: never }
+  // Uploaded photos are shown as they are instead of rendering a PDF page
+  | { image: File; url?: never; pageNumber?: never }
+)
+
+/**
+ * One page of a PDF, or an uploaded image, drawn at letter proportions.
+ * PDF pages are only rendered once they scroll into view.
+ */
+export default function PageThumbnail({ url, pageNumber, image, alt, width, className }: PageThumbnailProps) {
+  const ref = useRef<HTMLDivElement>(null)
+  const [src, setSrc] = useState<string>()
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    if (!image) return
+    const imageUrl = URL.createObjectURL(image)
+    setSrc(imageUrl)
+    return () => URL.revokeObjectURL(imageUrl)
+  }, [image])
+
+  useEffect(() => {
+    if (image || url === undefined || !ref.current) return
+
+    let cancelled = false
+    setSrc(undefined)
+    setFailed(false)
+    const observer = new IntersectionObserver(entries => {
+      if (!entries.some(entry => entry.isIntersecting)) return
+      observer.disconnect()
+      pdfThumbnails.getThumbnail(url, pageNumber, width).then(
+        thumbnail => !cancelled && setSrc(thumbnail),
+        () => !cancelled && setFailed(true)
+      )
+    })
+    observer.observe(ref.current)
+
+    return () => {
+      cancelled = true
+      observer.disconnect()
+    }
+  }, [url, image, pageNumber, width])
+
+  return (
+    <div ref={ref} className={cn('aspect-[17/22] bg-white rounded flex items-center justify-center overflow-hidden', className)}>
+      {src ? (
+        <img src={src} alt={alt} className="w-full h-full object-contain" />
+      ) : (
+        <span className="text-xs text-gray-400">{failed ? 'No preview' : 'Loading...'}</span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+import { useEffect, useRef, useState } from 'react'
+import {
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  BookmarkIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline'
+import { availableDocuments } from '@/data/documents'
+import { presetDocuments, presetStore, type Preset } from '@/services/presets'
+import type { SelectedDocument } from '@/types'
+
+interface PresetPickerProps {
+  selectedDocuments: SelectedDocument[]
+  onApply: (preset: Preset, selectedDocuments: SelectedDocument[]) => void
+  // The packet as it stands, for saving it as a new preset
+  getCurrentPreset?: () => Omit<Preset, 'id' | 'name'>
+}
+
+export default function PresetPicker({ selectedDocuments: current, onApply, getCurrentPreset }: PresetPickerProps) {
+  const [bundled, setBundled] = useState<Preset[]>([])
+  const [userPresets, setUserPresets] = useState<Preset[]>(() => presetStore.listUser())
+  // "bundled:<id>" or "user:<id>", as bundled and user ids may collide
+  const [selectedKey, setSelectedKey] = useState('')
+  const [message, setMessage] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    presetStore.fetchBundled().then(setBundled)
+  }, [])
+
+  const [source, selectedId] = selectedKey.split(':')
+  const selected = (source === 'user' ? userPresets : bundled).find(preset => preset.id === selectedId)
+
+  const handleApply = () => {
+    if (!selected) return
+    const { selectedDocuments, missing } = presetDocuments(selected, availableDocuments, current)
+    onApply(selected, selectedDocuments)
+    setMessage(missing.length > 0
+      ? `Applied "${selected.name}". Not in the catalog: ${missing.join(', ')}`
+      : `Applied "${selected.name}"`)
+  }
+
+  const handleSave = () => {
+    if (!getCurrentPreset) return
+    const name = window.prompt('Name this preset')?.trim()
+    if (!name) return
+    const saved = presetStore.save({ ...getCurrentPreset(), name })
+    setUserPresets(presetStore.listUser())
+    setSelectedKey(`user:${saved.id}`)
+    setMessage(`Saved "${name}"`)
+  }
+
+  const handleDelete = () => {
+    if (!selected || source !== 'user') return
+    if (!window.confirm(`Delete the preset "${selected.name}"?`)) return
+    presetStore.delete(selected.id)
+    setUserPresets(presetStore.listUser())
+    setSelectedKey('')
+    setMessage(null)
+  }
+
+  const handleImport = async (file: File) => {
+    try {
+      const count = await presetStore.importFile(file)
+      setUserPresets(presetStore.listUser())
+      setMessage(`Imported ${count} preset${count !== 1 ? 's' : ''}`)
+    } catch (importError) {
+      console.error('Could not import presets:', importError)
+      alert(importError instanceof Error ? importError.message : 'The preset file could not be imported.')
+    }
+  }
+
+  if (bundled.length === 0 && userPresets.length === 0 && !getCurrentPreset) return null
+
+  return (
+    <div className="mb-8 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="preset" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Start from a preset
+        </label>
+        <select
+          id="preset"
+          value={selectedKey}
+          onChange={(e) => setSelectedKey(e.target.value)}
+          className="form-input flex-1 min-w-48 bg-white dark:bg-gray-700"
+        >
+          <option value="">Choose a preset...</option>
+          {bundled.length > 0 && (
+            <optgroup label="Standard">
+              {bundled.map(preset => (
+                <option key={preset.id} value={`bundled:${preset.id}`}>{preset.name}</option>
+              ))}
+            </optgroup>
+          )}
+          {userPresets.length > 0 && (
+            <optgroup label="My presets">
+              {userPresets.map(preset => (
+                <option key={preset.id} value={`user:${preset.id}`}>{preset.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        <button type="button" onClick={handleApply} disabled={!selected} className="btn btn-outline btn-sm">
+          Apply
+        </button>
+        {selected && source === 'user' && (
+          <button type="button" onClick={handleDelete} className="btn btn-ghost btn-sm p-2" title="Delete preset">
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        )}
+        {getCurrentPreset && (
+          <button type="button" onClick={handleSave} className="btn btn-ghost btn-sm p-2" title="Save current packet as a preset">
+            <BookmarkIcon className="w-4 h-4" />
+          </button>
+        )}
+        <button type="button" onClick={() => fileInputRef.current?.click()} className="btn btn-ghost btn-sm p-2" title="Import presets">
+          <ArrowUpTrayIcon className="w-4 h-4" />
+        </button>
+        {userPresets.length > 0 && (
+          <button type="button" onClick={() => presetStore.exportFile()} className="btn btn-ghost btn-sm p-2" title="Export my presets">
+            <ArrowDownTrayIcon className="w-4 h-4" />
+          </button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            e.target.value = ''
+            if (file) handleImport(file)
+          }}
+        />
+      </div>
+      {selected?.description && (
+        <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">{selected.description}</p>
+      )}
+      {message && <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">{message}</p>}
+    </div>
+  )
+}
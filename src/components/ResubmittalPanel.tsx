@@ -0,0 +1,56 @@
+import { ArrowPathIcon } from '@heroicons/react/24/outline'
+import { packetHistory } from '@/services/packetHistory'
+import type { SavedPacket } from '@/types'
+
+interface ResubmittalPanelProps {
+  resubmittalOf?: string
+  onResubmit: (packet: SavedPacket) => void
+  onCancel: () => void
+}
+
+// How many earlier submittals are offered for resubmittal
+const MAX_LISTED = 5
+
+export default function ResubmittalPanel({ resubmittalOf, onResubmit, onCancel }: ResubmittalPanelProps) {
+  const basePacket = resubmittalOf ? packetHistory.get(resubmittalOf) : undefined
+
+  if (basePacket) {
+    return (
+      <div className="mb-8 p-4 flex flex-wrap items-center justify-between gap-4 bg-primary-50 dark:bg-primary-900/20 rounded-lg border border-primary-200 dark:border-primary-800">
+        <p className="text-primary-700 dark:text-primary-300 font-medium">
+          Resubmitting {basePacket.formData.projectName || 'Untitled'}
+          {basePacket.submittalId ? ` (${basePacket.submittalId})` : ''} as revision {basePacket.revision + 1}
+        </p>
+        <button onClick={onCancel} className="btn btn-outline btn-sm">Treat as a new submittal</button>
+      </div>
+    )
+  }
+
+  const previous = packetHistory.latestRevisions().slice(0, MAX_LISTED)
+  if (previous.length === 0) return null
+
+  return (
+    <div className="mb-8 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+      <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-3">Revise and resubmit</h3>
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {previous.map(packet => (
+          <li key={packet.id} className="flex items-center justify-between gap-4 py-2">
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900 dark:text-white truncate">
+                {packet.formData.projectName || 'Untitled'}
+                {packet.submittalId && <span className="text-gray-500 dark:text-gray-400 font-normal"> • {packet.submittalId}</span>}
+              </p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Revision {packet.revision} • {packet.formData.date || new Date(packet.savedAt).toLocaleDateString()}
+              </p>
+            </div>
+            <button onClick={() => onResubmit(packet)} className="btn btn-outline btn-sm flex items-center gap-1 shrink-0">
+              <ArrowPathIcon className="w-4 h-4" />
+              Resubmit
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+import type { RunningHeader } from '@/types'
+
+interface RunningHeaderOptionsProps {
+  runningHeader: RunningHeader
+  onChange: (runningHeader: RunningHeader) => void
+  disabled?: boolean
+}
+
+const positions: Array<{ value: RunningHeader['position']; label: string }> = [
+  { value: 'top', label: 'Header (top of page)' },
+  { value: 'bottom', label: 'Footer (bottom of page)' },
+]
+
+const layouts: Array<{ value: RunningHeader['layout']; label: string }> = [
+  { value: 'split', label: 'Project left, date center, section right' },
+  { value: 'line', label: 'Single centered line' },
+]
+
+export default function RunningHeaderOptions({ runningHeader, onChange, disabled = false }: RunningHeaderOptionsProps) {
+  const update = (changes: Partial<RunningHeader>) => onChange({ ...runningHeader, ...changes })
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-start gap-3 cursor-pointer">
+        <input type="checkbox" className="mt-1" checked={runningHeader.enabled} disabled={disabled} onChange={e => update({ enabled: e.target.checked })} />
+        <span>
+          <span className="font-medium text-gray-900 dark:text-white">Stamp project details on every page</span>
+          <span className="block text-sm text-gray-500 dark:text-gray-400">Project name and number, submittal date and section name on all pages after the submittal form. Rotated pages are left unstamped.</span>
+        </span>
+      </label>
+
+      {runningHeader.enabled && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Placement</label>
+            <select
+              value={runningHeader.position}
+              disabled={disabled}
+              onChange={e => update({ position: e.target.value as RunningHeader['position'] })}
+              className="form-input w-full bg-white dark:bg-gray-700"
+            >
+              {positions.map(position => (
+                <option key={position.value} value={position.value}>{position.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Layout</label>
+            <select
+              value={runningHeader.layout}
+              disabled={disabled}
+              onChange={e => update({ layout: e.target.value as RunningHeader['layout'] })}
+              className="form-input w-full bg-white dark:bg-gray-700"
+            >
+              {layouts.map(layout => (
+                <option key={layout.value} value={layout.value}>{layout.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Font size (pt)</label>
+            <input
+              type="number"
+              min={6}
+              max={12}
+              value={runningHeader.fontSize}
+              disabled={disabled}
+              onChange={e => update({ fontSize: Number(e.target.value) })}
+              className="form-input w-full bg-white dark:bg-gray-700"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,111 @@
+import { formatSubmittalId } from '@shared/numbering'
+import { pagePositions } from '@/components/PageNumberingOptions'
+import type { PageNumberPosition, SubmittalNumbering } from '@/types'
+
+interface SubmittalNumberingOptionsProps {
+  submittal: SubmittalNumbering
+  onChange: (submittal: SubmittalNumbering) => void
+  projectNumber?: string
+  // Where page numbers are stamped, if they are
+  pageNumberPosition?: PageNumberPosition
+  disabled?: boolean
+}
+
+export default function SubmittalNumberingOptions({
+  submittal,
+  onChange,
+  projectNumber,
+  pageNumberPosition,
+  disabled = false,
+}: SubmittalNumberingOptionsProps) {
+  const update = (changes: Partial<SubmittalNumbering>) => onChange({ ...submittal, ...changes })
+
+  const example = submittal.sequence
+    ? formatSubmittalId(submittal.specSection, submittal.sequence, submittal.revision)
+    : `${submittal.specSection}-###.${submittal.revision}`
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-start gap-3 cursor-pointer">
+        <input type="checkbox" className="mt-1" checked={submittal.enabled} disabled={disabled} onChange={e => update({ enabled: e.target.checked })} />
+        <span>
+          <span className="font-medium text-gray-900 dark:text-white">Stamp a submittal number on every page</span>
+          <span className="block text-sm text-gray-500 dark:text-gray-400">
+            Spec section, submittal sequence and revision, e.g. 06 16 26-003.1. Sequences count up per project number.
+          </span>
+        </span>
+      </label>
+
+      {submittal.enabled && (
+        <>
+          {!projectNumber?.trim() && (
+            <p className="text-sm text-amber-700 dark:text-amber-300">
+              Enter a project number in the project information step; sequences are tracked per project number.
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Spec section</label>
+              <input
+                type="text"
+                value={submittal.specSection}
+                placeholder="06 16 26"
+                disabled={disabled}
+                onChange={e => update({ specSection: e.target.value })}
+                className="form-input w-full bg-white dark:bg-gray-700"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Sequence</label>
+              <input
+                type="number"
+                min={1}
+                max={999}
+                value={submittal.sequence ?? ''}
+                placeholder="Next"
+                disabled={disabled}
+                onChange={e => update({ sequence: e.target.value ? Number(e.target.value) : undefined })}
+                className="form-input w-full bg-white dark:bg-gray-700"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Revision</label>
+              <input
+                type="number"
+                min={0}
+                max={99}
+                value={submittal.revision}
+                disabled={disabled}
+                onChange={e => update({ revision: Number(e.target.value) })}
+                className="form-input w-full bg-white dark:bg-gray-700"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Position</label>
+              <select
+                value={submittal.position}
+                disabled={disabled}
+                onChange={e => update({ position: e.target.value as PageNumberPosition })}
+                className="form-input w-full bg-white dark:bg-gray-700"
+              >
+                {pagePositions.map(position => (
+                  <option key={position.value} value={position.value} disabled={position.value === pageNumberPosition}>
+                    {position.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Stamped as “{example}”. Leave the sequence blank to use the project's next one; enter it to resubmit an earlier submittal as a new revision.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
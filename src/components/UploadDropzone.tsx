@@ -0,0 +1,117 @@
+import { useRef, useState } from 'react'
+import { ArrowUpTrayIcon } from '@heroicons/react/24/outline'
+import { PDFChecker } from '@shared/pdfChecker'
+import { uploadStore, IMAGE_TYPES } from '@/services/uploadStore'
+import type { Document } from '@/types'
+import { cn } from '@/utils'
+
+interface UploadDropzoneProps {
+  onUpload: (documents: Document[]) => void
+}
+
+export default function UploadDropzone({ onUpload }: UploadDropzoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isDragging, setIsDragging] = useState(false)
+  const [isChecking, setIsChecking] = useState(false)
+  const [errors, setErrors] = useState<string[]>([])
+  const [captions, setCaptions] = useState(true)
+
+  // Only PDFs the worker can actually merge are accepted. Images dropped
+  // together become one photo section.
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return
+    setIsChecking(true)
+
+    const accepted: Document[] = []
+    const rejected: string[] = []
+    const images: File[] = []
+
+    for (const file of Array.from(fileList)) {
+      if (IMAGE_TYPES.includes(file.type)) {
+        images.push(file)
+        continue
+      }
+      if (file.type !== 'application/pdf' && !file.name.toLowerCase().endsWith('.pdf')) {
+        rejected.push(`${file.name}: only PDF, PNG and JPEG files can be uploaded`)
+        continue
+      }
+
+      const document = uploadStore.addPdf(file)
+      const check = await PDFChecker.checkPDF(document.url, file.name, file.size)
+
+      if (!check.isAccessible || check.isEncrypted) {
+        uploadStore.remove(document)
+        rejected.push(`${file.name}: ${check.isEncrypted ? 'encrypted PDFs cannot be merged' : check.error || 'not a readable PDF'}`)
+        continue
+      }
+
+      accepted.push({ ...document, pageCount: check.pageCount })
+    }
+
+    if (images.length > 0) {
+      accepted.push(uploadStore.addImages(images, captions))
+    }
+
+    setErrors(rejected)
+    setIsChecking(false)
+    if (accepted.length > 0) {
+      onUpload(accepted)
+    }
+  }
+
+  return (
+    <div>
+      <div
+        onDragOver={(e) => {
+          e.preventDefault()
+          setIsDragging(true)
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault()
+          setIsDragging(false)
+          handleFiles(e.dataTransfer.files)
+        }}
+        onClick={() => inputRef.current?.click()}
+        className={cn(
+          'flex flex-col items-center justify-center gap-2 p-6 rounded-lg border-2 border-dashed cursor-pointer transition-colors',
+          isDragging
+            ? 'border-cyan-500 bg-cyan-50 dark:bg-cyan-900/20'
+            : 'border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 hover:border-cyan-300'
+        )}
+      >
+        <ArrowUpTrayIcon className="w-8 h-8 text-gray-400" />
+        <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          {isChecking ? 'Checking files...' : 'Drop PDFs or photos here or click to browse'}
+        </p>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Shop drawings, letters, fire assembly reports, and PNG/JPEG photos of samples, labels and mockups
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="application/pdf,.pdf,image/png,image/jpeg"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            handleFiles(e.target.files)
+            e.target.value = ''
+          }}
+        />
+      </div>
+
+      <label className="flex items-center gap-2 mt-3 text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+        <input type="checkbox" checked={captions} onChange={(e) => setCaptions(e.target.checked)} />
+        Caption photos with their filename and the submittal date
+      </label>
+
+      {errors.length > 0 && (
+        <ul className="mt-3 space-y-1 text-sm text-red-600 dark:text-red-400">
+          {errors.map((error, index) => (
+            <li key={index}>{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
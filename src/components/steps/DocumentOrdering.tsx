@@ -25,14 +25,28 @@ import {
   EyeIcon,
   ChevronUpIcon,
   ChevronDownIcon,
-  DocumentCheckIcon
+  DocumentCheckIcon,
+  DocumentDuplicateIcon
 } from '@heroicons/react/24/outline'
-import { cn, formatFileSize, generateId } from '@/utils'
+import { cn, describePageSelection, formatFileSize, generateId } from '@/utils'
 import { availableDocuments, documentTypeConfig } from '@/data/documents'
-import type { SelectedDocument, DocumentType } from '@/types'
+import { uploadStore } from '@/services/uploadStore'
+import UploadDropzone from '@/components/UploadDropzone'
+import PresetPicker from '@/components/PresetPicker'
+import OutdatedDocumentsNotice from '@/components/OutdatedDocumentsNotice'
+import PageSelector from '@/components/PageSelector'
+import PagePreviewDialog from '@/components/PagePreviewDialog'
+import { pdfThumbnails } from '@/services/pdfThumbnails'
+import { packetPreview, type PreviewPage } from '@/services/packetPreview'
+import { presetFormData, type Preset } from '@/services/presets'
+import { findOutdatedDocuments, upgradeDocuments, type OutdatedDocument } from '@/services/documentVersions'
+import { formatDocumentVersion, getSupersededBy } from '@shared/catalog'
+import type { Document, SelectedDocument, DocumentType, ProjectFormData } from '@/types'
 
 interface DocumentOrderingProps {
+  formData: Partial<ProjectFormData>
   selectedDocuments: SelectedDocument[]
+  onUpdateFormData: (data: Partial<ProjectFormData>) => void
   onUpdateSelectedDocuments: (documents: SelectedDocument[]) => void
   onNext: () => void
   onPrevious: () => void
@@ -45,10 +59,14 @@ interface SortableItemProps {
   onRemove: (id: string) => void
   onMoveUp: (id: string) => void
   onMoveDown: (id: string) => void
-  onPreview: (url: string) => void
+  onPreview: (document: SelectedDocument) => void
+  onUpdatePages: (id: string, pages: string | undefined) => void
+  onPageCount: (id: string, pageCount: number) => void
 }
 
-function SortableItem({ document, index, totalCount, onRemove, onMoveUp, onMoveDown, onPreview }: SortableItemProps) {
+function SortableItem({ document, index, totalCount, onRemove, onMoveUp, onMoveDown, onPreview, onUpdatePages, onPageCount }: SortableItemProps) {
+  const [showPages, setShowPages] = useState(false)
+
   const {
     attributes,
     listeners,
@@ -103,7 +121,9 @@ function SortableItem({ document, index, totalCount, onRemove, onMoveUp, onMoveD
             {document.document.description}
           </p>
           <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
-            {formatFileSize(document.document.size || 0)} • PDF
+            {formatFileSize(document.document.size || 0)} • {document.document.type === 'Photos' ? 'Images' : 'PDF'}
+            {formatDocumentVersion(document.document) && ` • Version ${formatDocumentVersion(document.document)}`}
+            {describePageSelection(document) && ` • ${describePageSelection(document)}`}
           </p>
         </div>
 
@@ -139,11 +159,24 @@ function SortableItem({ document, index, totalCount, onRemove, onMoveUp, onMoveD
             <ChevronDownIcon className="w-4 h-4" />
           </button>
 
+          {/* Pages Button */}
+          <button
+            onClick={() => setShowPages(!showPages)}
+            className={cn(
+              "btn btn-ghost btn-sm p-2 hover:bg-cyan-50 dark:hover:bg-cyan-900/20 text-cyan-600 dark:text-cyan-400",
+              (showPages || document.pages) && "bg-cyan-50 dark:bg-cyan-900/20"
+            )}
+            title="Choose pages"
+            aria-expanded={showPages}
+          >
+            <DocumentDuplicateIcon className="w-4 h-4" />
+          </button>
+
           {/* Preview Button */}
           <button
-            onClick={() => onPreview(document.document.url)}
+            onClick={() => onPreview(document)}
             className="btn btn-ghost btn-sm p-2 hover:bg-green-50 dark:hover:bg-green-900/20 text-green-600 dark:text-green-400"
-            title="Preview document (opens in new tab)"
+            title="Preview pages"
           >
             <EyeIcon className="w-4 h-4" />
           </button>
@@ -158,18 +191,30 @@ function SortableItem({ document, index, totalCount, onRemove, onMoveUp, onMoveD
           </button>
         </div>
       </div>
+
+      {showPages && (
+        <PageSelector
+          selected={document}
+          onChange={(pages) => onUpdatePages(document.id, pages)}
+          onPageCount={(pageCount) => onPageCount(document.id, pageCount)}
+          onClose={() => setShowPages(false)}
+        />
+      )}
     </motion.div>
   )
 }
 
 export default function DocumentOrdering({
+  formData,
   selectedDocuments,
+  onUpdateFormData,
   onUpdateSelectedDocuments,
   onNext,
   onPrevious,
 }: DocumentOrderingProps) {
   const [searchTerm, setSearchTerm] = useState('')
   const [filterType, setFilterType] = useState<DocumentType | 'all'>('all')
+  const [preview, setPreview] = useState<{ title: string; load: () => Promise<PreviewPage[]> } | null>(null)
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -188,15 +233,21 @@ export default function DocumentOrdering({
     })
   )
 
+  // Older versions stay in the catalog for saved packets, but aren't offered for new selections
+  const supersededBy = useMemo(() => getSupersededBy(availableDocuments), [])
+
   // Filter and search documents for selection
   const filteredDocuments = useMemo(() => {
     return availableDocuments.filter(doc => {
+      if (supersededBy.has(doc.id) && !selectedDocuments.some(selected => selected.selected && selected.document.id === doc.id)) {
+        return false
+      }
       const matchesSearch = doc.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                            doc.description.toLowerCase().includes(searchTerm.toLowerCase())
       const matchesFilter = filterType === 'all' || doc.type === filterType
       return matchesSearch && matchesFilter
     })
-  }, [searchTerm, filterType])
+  }, [searchTerm, filterType, selectedDocuments])
 
   // Get unique document types for filter
   const documentTypes = useMemo(() => {
@@ -268,7 +319,27 @@ export default function DocumentOrdering({
     }
   }
 
+  // Uploaded files are added to the end of the packet
+  const addUploads = (documents: Document[]) => {
+    const newSelectedDocs: SelectedDocument[] = documents.map((document, index) => ({
+      id: generateId(),
+      document,
+      order: selectedDocuments.length + index,
+      selected: true,
+    }))
+    onUpdateSelectedDocuments([...selectedDocuments, ...newSelectedDocs])
+  }
+
   const removeDocument = (documentId: string) => {
+    // Uploads can't be re-selected from the catalog, so drop them entirely
+    const removed = selectedDocuments.find(doc => doc.id === documentId)
+    if (removed?.document.source === 'upload') {
+      uploadStore.remove(removed.document)
+      pdfThumbnails.release(removed.document.url)
+      onUpdateSelectedDocuments(selectedDocuments.filter(doc => doc.id !== documentId))
+      return
+    }
+
     const updatedDocuments = selectedDocuments.map(doc =>
       doc.id === documentId ? { ...doc, selected: false } : doc
     )
@@ -315,9 +386,46 @@ export default function DocumentOrdering({
     }
   }
 
-  // Preview document
-  const previewDocument = (documentUrl: string) => {
-    window.open(documentUrl, '_blank')
+  const updatePages = (documentId: string, pages: string | undefined) => {
+    onUpdateSelectedDocuments(selectedDocuments.map(doc =>
+      doc.id === documentId ? { ...doc, pages } : doc
+    ))
+  }
+
+  // Keep page counts read from the file, so estimates can account for page selections
+  const setPageCount = (documentId: string, pageCount: number) => {
+    onUpdateSelectedDocuments(selectedDocuments.map(doc =>
+      doc.id === documentId ? { ...doc, document: { ...doc.document, pageCount } } : doc
+    ))
+  }
+
+  const outdated = findOutdatedDocuments(selectedDocuments, availableDocuments)
+
+  const upgradeOutdated = (items: OutdatedDocument[]) => {
+    onUpdateSelectedDocuments(upgradeDocuments(selectedDocuments, items))
+  }
+
+  // Replace the selection with a preset's documents, and take its form defaults
+  const applyPreset = (preset: Preset, documents: SelectedDocument[]) => {
+    onUpdateSelectedDocuments(documents)
+    onUpdateFormData(presetFormData(preset))
+  }
+
+  const getCurrentPreset = () => ({
+    documentIds: sortedDocuments
+      .filter(doc => doc.document.source !== 'upload')
+      .map(doc => doc.document.id),
+    status: formData.status,
+    submittalType: formData.submittalType,
+    product: formData.product,
+  })
+
+  // Preview a document's pages in the app; selected documents show which pages are left out
+  const previewDocument = (selected: Pick<SelectedDocument, 'document' | 'pages'>) => {
+    setPreview({
+      title: selected.document.name,
+      load: () => packetPreview.documentPages(selected.document, selected.pages),
+    })
   }
 
   const canProceed = sortedDocuments.length > 0
@@ -349,6 +457,12 @@ export default function DocumentOrdering({
           </p>
         </div>
 
+        <PresetPicker
+          selectedDocuments={selectedDocuments}
+          onApply={applyPreset}
+          getCurrentPreset={getCurrentPreset}
+        />
+
         {/* Document Selection Section */}
         <div className="bg-gray-50 dark:bg-gray-800 p-6 rounded-lg border border-gray-200 dark:border-gray-700 mb-8">
           <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
@@ -460,11 +574,14 @@ export default function DocumentOrdering({
 
                     {/* File Info */}
                     <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
-                      <span>{formatFileSize(document.size || 0)}</span>
+                      <span>
+                        {formatFileSize(document.size || 0)}
+                        {formatDocumentVersion(document) && ` • Version ${formatDocumentVersion(document)}`}
+                      </span>
                       <button
                         onClick={(e) => {
                           e.stopPropagation()
-                          window.open(document.url, '_blank')
+                          previewDocument({ document })
                         }}
                         className="text-cyan-600 hover:text-cyan-700 dark:text-cyan-400 hover:underline"
                       >
@@ -487,6 +604,20 @@ export default function DocumentOrdering({
           )}
         </div>
 
+        {/* Project Attachments */}
+        <div className="bg-gray-50 dark:bg-gray-800 p-6 rounded-lg border border-gray-200 dark:border-gray-700 mb-8">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            Project Attachments
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+            Add project-specific PDFs. They are merged with the catalog documents and can be arranged below.
+            Uploads are kept only until the page is reloaded.
+          </p>
+          <UploadDropzone onUpload={addUploads} />
+        </div>
+
+        <OutdatedDocumentsNotice outdated={outdated} onUpgrade={upgradeOutdated} />
+
         {/* Document Ordering Section */}
         {sortedDocuments.length > 0 && (
           <div className="bg-gray-50 dark:bg-gray-800 p-6 rounded-lg border border-gray-200 dark:border-gray-700 mb-8">
@@ -511,6 +642,10 @@ export default function DocumentOrdering({
                   <EyeIcon className="w-4 h-4" />
                   <span>Eye icon to preview</span>
                 </div>
+                <div className="flex items-center gap-2">
+                  <DocumentDuplicateIcon className="w-4 h-4" />
+                  <span>Pages icon to include only some pages</span>
+                </div>
                 <div className="flex items-center gap-2">
                   <TrashIcon className="w-4 h-4" />
                   <span>Trash icon to remove</span>
@@ -543,6 +678,8 @@ export default function DocumentOrdering({
                         onMoveUp={moveDocumentUp}
                         onMoveDown={moveDocumentDown}
                         onPreview={previewDocument}
+                        onUpdatePages={updatePages}
+                        onPageCount={setPageCount}
                       />
                     ))}
                   </AnimatePresence>
@@ -597,6 +734,10 @@ export default function DocumentOrdering({
           </motion.button>
         </div>
       </div>
+
+      {preview && (
+        <PagePreviewDialog title={preview.title} load={preview.load} onClose={() => setPreview(null)} />
+      )}
     </motion.div>
   )
 }
@@ -1,7 +1,18 @@
+import { useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
-import { pdfService } from '@/services/pdfService';
-import type { SelectedDocument, ProjectFormData } from '@/types';
-import { cn, formatFileSize } from '@/utils';
+import { selectCoverTemplate, type CoverTemplate } from '@shared/coverTemplates';
+import { pdfService, PacketCancelledError, PacketFailedError } from '@/services/pdfService';
+import type { GeneratedPacket } from '@/services/pdfService';
+import PacketReportSummary from '@/components/PacketReportSummary';
+import PagePreviewDialog from '@/components/PagePreviewDialog';
+import PageNumberingOptions from '@/components/PageNumberingOptions';
+import RunningHeaderOptions from '@/components/RunningHeaderOptions';
+import SubmittalNumberingOptions from '@/components/SubmittalNumberingOptions';
+import { packetPreview } from '@/services/packetPreview';
+import { coverTemplateStore } from '@/services/coverTemplates';
+import { packetHistory, compareRevisions, describeChanges, hasChanges } from '@/services/packetHistory';
+import type { SelectedDocument, ProjectFormData, PacketJobStatus, PacketFailure, GenerationOptions, RevisionEntry, SavedPacket } from '@/types';
+import { cn, describePageSelection, estimateSelectedSize, formatFileSize, generateId } from '@/utils';
 
 interface PacketGenerationProps {
   selectedDocuments: SelectedDocument[];
@@ -10,6 +21,11 @@ interface PacketGenerationProps {
   isGenerating: boolean;
   onSetGenerating: (isGenerating: boolean) => void;
   formData: Partial<ProjectFormData>;
+  generationOptions: GenerationOptions;
+  onUpdateGenerationOptions: (options: Partial<GenerationOptions>) => void;
+  resubmittalOf?: string;
+  savedPacketId?: string;
+  onPacketSaved: (packet: SavedPacket) => void;
 }
 
 const PacketGeneration = ({
@@ -18,15 +34,109 @@ const PacketGeneration = ({
   onNext,
   isGenerating,
   onSetGenerating,
-  formData
+  formData,
+  generationOptions,
+  onUpdateGenerationOptions,
+  resubmittalOf,
+  savedPacketId,
+  onPacketSaved
 }: PacketGenerationProps) => {
-  // Calculate total size
-  const totalSize = selectedDocuments.filter(doc => doc.selected).reduce((sum, doc) => sum + (doc.document.size || 0), 0);
+  // Calculate total size, counting only the selected pages of each document
+  const totalSize = selectedDocuments.filter(doc => doc.selected).reduce((sum, doc) => sum + estimateSelectedSize(doc), 0);
   const sortedDocs = selectedDocuments.filter(doc => doc.selected).sort((a, b) => a.order - b.order);
 
   // Estimate final size (e.g., 80% of total size to account for compression or overhead)
   const estimatedFinalSize = totalSize * 0.8;
 
+  // Progress of the running packet job
+  const [progress, setProgress] = useState<PacketJobStatus | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Last generated packet, held until the user has reviewed its report
+  const [generatedPacket, setGeneratedPacket] = useState<GeneratedPacket | null>(null);
+  const packetFilename = `${formData.projectName || 'Untitled'}_Packet.pdf`;
+
+  // Strict packets fail instead of containing error pages
+  const { coverTemplate, mode, dividers, numbering, runningHeader, submittal } = generationOptions;
+  const [failures, setFailures] = useState<PacketFailure[]>([]);
+  const [showPreview, setShowPreview] = useState(false);
+  const [offlineMode, setOfflineMode] = useState(() => pdfService.isOfflineMode());
+
+  // Cover forms registered for the packet's product lines
+  const [coverTemplates, setCoverTemplates] = useState<CoverTemplate[]>([]);
+  useEffect(() => {
+    coverTemplateStore.fetchAll().then(setCoverTemplates);
+  }, []);
+  const productCover = selectCoverTemplate(coverTemplates, undefined, formData.product || '');
+
+  const updateOfflineMode = (enabled: boolean) => {
+    pdfService.setOfflineMode(enabled);
+    setOfflineMode(enabled);
+  };
+
+  // A resubmittal is the next revision of the saved packet it revises
+  const basePacket = resubmittalOf ? packetHistory.get(resubmittalOf) : undefined;
+  const revision = basePacket ? basePacket.revision + 1 : 0;
+  const changes = basePacket && compareRevisions(basePacket.selectedDocuments, selectedDocuments);
+
+  // Revision block for the cover: every earlier revision, then this one
+  const revisionEntries = (): RevisionEntry[] | undefined => {
+    if (!basePacket || !changes) return undefined;
+    const earlier = packetHistory.revisions(basePacket.chainId).filter(packet => packet.revision < revision);
+    return [
+      ...earlier.map(packet => ({
+        revision: packet.revision,
+        date: packet.formData.date || '',
+        description: packet.changes ? describeChanges(packet.changes) : 'Initial submittal',
+      })),
+      { revision, date: formData.date || new Date().toLocaleDateString(), description: describeChanges(changes) },
+    ].map(entry => ({ ...entry, description: entry.description.slice(0, 200) }));
+  };
+
+  const startJob = () => {
+    abortControllerRef.current = new AbortController();
+    setProgress(null);
+    setGeneratedPacket(null);
+    setFailures([]);
+    return { onProgress: setProgress, signal: abortControllerRef.current.signal, coverTemplate, mode, dividers, numbering, runningHeader, submittal, revisions: revisionEntries() };
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const progressLabel = (() => {
+    if (!progress || progress.state === 'queued') return offlineMode ? 'Starting...' : 'Waiting for worker...';
+    if (progress.currentDocument) return `Merging ${progress.currentDocument}... ${progress.processed + 1}/${progress.total}`;
+    if (progress.processed >= progress.total) return 'Finishing packet...';
+    return `Processing ${progress.processed}/${progress.total}`;
+  })();
+  const progressPercent = progress && progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0;
+
+  const hasProblems = (packet: GeneratedPacket) => {
+    const report = packet.report;
+    if (!report) return false;
+    return report.errorPages > 0 || report.warnings.length > 0 || report.documents.some(doc => doc.warnings.length > 0);
+  };
+
+  const handleDownload = (packet: GeneratedPacket) => {
+    pdfService.downloadPDF(packet.pdfBytes, packetFilename);
+
+    // Keep what went into the packet so it can be revised and resubmitted
+    const previouslySaved = savedPacketId ? packetHistory.get(savedPacketId) : undefined;
+    onPacketSaved(packetHistory.save({
+      chainId: basePacket?.chainId || previouslySaved?.chainId || generateId(),
+      revision,
+      formData,
+      selectedDocuments,
+      submittalId: packet.report?.submittalId,
+      submittal: submittal.enabled ? { ...submittal, sequence: packet.report?.submittalSequence ?? submittal.sequence } : undefined,
+      generationOptions,
+      changes,
+    }, savedPacketId));
+    onNext();
+  };
+
   const handleGenerate = async () => {
     console.log('Generate Packet button clicked');
     if (isGenerating) return;
@@ -63,60 +173,31 @@ const PacketGeneration = ({
         date: formData.date || new Date().toLocaleDateString(),
       };
       console.log('Prepared form data for PDF:', preparedFormData); // Debug output
-      const pdfBytes = await pdfService.generatePacket(preparedFormData, sortedDocs);
-      pdfService.downloadPDF(pdfBytes, `${formData.projectName || 'Untitled'}_Packet.pdf`);
-      onNext();
+      const packet = await pdfService.generatePacket(preparedFormData, sortedDocs, startJob());
+      setGeneratedPacket(packet);
+      // Hold back packets with error pages or warnings until the user has reviewed the report
+      if (!hasProblems(packet)) {
+        handleDownload(packet);
+      }
     } catch (error) {
+      if (error instanceof PacketCancelledError) return;
+      if (error instanceof PacketFailedError) {
+        setFailures(error.failures);
+        return;
+      }
       console.error('Error generating PDF:', error);
       alert('Failed to generate PDF packet.');
     } finally {
+      abortControllerRef.current = null;
+      setProgress(null);
       onSetGenerating(false);
     }
   };
 
-  const handlePreview = async () => {
-    console.log('Preview Packet button clicked');
+  // The packet is previewed from the documents in the browser; nothing is generated
+  const handlePreview = () => {
     if (isGenerating) return;
-    onSetGenerating(true);
-    try {
-      const preparedFormData = {
-        ...formData,
-        emailAddress: formData.emailAddress || '',
-        phoneNumber: formData.phoneNumber || '',
-        product: formData.product || '3/4-in (20mm)',
-        status: formData.status || {
-          forReview: false,
-          forApproval: false,
-          forRecord: false,
-          forInformationOnly: false,
-        },
-        submittalType: formData.submittalType || {
-          tds: false,
-          threePartSpecs: false,
-          testReportIccEsr5194: false,
-          testReportIccEsl1645: false,
-          fireAssembly: false,
-          fireAssembly01: false,
-          fireAssembly02: false,
-          fireAssembly03: false,
-          msds: false,
-          leedGuide: false,
-          installationGuide: false,
-          warranty: false,
-          samples: false,
-          other: false,
-        },
-        date: formData.date || new Date().toLocaleDateString(),
-      };
-      console.log('Prepared form data for preview:', preparedFormData); // Debug output
-      const pdfBytes = await pdfService.generatePacket(preparedFormData, sortedDocs);
-      pdfService.previewPDF(pdfBytes);
-    } catch (error) {
-      console.error('Error generating PDF for preview:', error);
-      alert('Failed to generate PDF preview.');
-    } finally {
-      onSetGenerating(false);
-    }
+    setShowPreview(true);
   };
 
   return (
@@ -152,7 +233,10 @@ const PacketGeneration = ({
                   <div className="flex justify-between items-center">
                     <div>
                       <span className="font-medium text-gray-900 dark:text-white">{index + 1}. {doc.document.name}</span>
-                      <div className="text-sm text-gray-500 dark:text-gray-400">{doc.document.type} • {formatFileSize(doc.document.size || 0)}</div>
+                      <div className="text-sm text-gray-500 dark:text-gray-400">
+                        {doc.document.type} • {formatFileSize(estimateSelectedSize(doc))}
+                        {describePageSelection(doc) && ` • ${describePageSelection(doc)}`}
+                      </div>
                     </div>
                     <div className="text-sm text-gray-500 dark:text-gray-400">Order: {doc.order}</div>
                   </div>
@@ -192,12 +276,144 @@ const PacketGeneration = ({
           </div>
         </div>
 
+        {basePacket && changes && (
+          <div className="mb-8 p-4 bg-primary-50 dark:bg-primary-900/20 rounded-lg border border-primary-200 dark:border-primary-800">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+              Resubmittal: revision {revision}{basePacket.submittalId ? ` of ${basePacket.submittalId}` : ''}
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">Changes since revision {basePacket.revision}:</p>
+            {hasChanges(changes) ? (
+              <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-300 list-disc list-inside">
+                {changes.added.map(name => <li key={`added-${name}`}><span className="text-green-700 dark:text-green-400 font-medium">Added</span> {name}</li>)}
+                {changes.removed.map(name => <li key={`removed-${name}`}><span className="text-red-700 dark:text-red-400 font-medium">Removed</span> {name}</li>)}
+                {changes.reordered.map(name => <li key={`reordered-${name}`}><span className="text-amber-700 dark:text-amber-400 font-medium">Moved</span> {name}</li>)}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No document changes.</p>
+            )}
+          </div>
+        )}
+
+        {coverTemplates.length > 0 && (
+          <div className="mb-8 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+            <label htmlFor="cover-template" className="font-medium text-gray-900 dark:text-white">Cover form</label>
+            <select
+              id="cover-template"
+              value={coverTemplate || ''}
+              disabled={isGenerating}
+              onChange={e => onUpdateGenerationOptions({ coverTemplate: e.target.value || undefined })}
+              className="form-input bg-white dark:bg-gray-700 mt-2"
+            >
+              <option value="">Match the product{productCover ? ` (${productCover.name})` : ''}</option>
+              {coverTemplates.map(template => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </select>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">The submittal form filled in with the project details as the first pages of the packet.</p>
+          </div>
+        )}
+
+        <div className="mb-8 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input type="checkbox" className="mt-1" checked={mode === 'strict'} disabled={isGenerating} onChange={e => onUpdateGenerationOptions({ mode: e.target.checked ? 'strict' : 'lenient' })} />
+            <span>
+              <span className="font-medium text-gray-900 dark:text-white">Strict mode</span>
+              <span className="block text-sm text-gray-500 dark:text-gray-400">Fail instead of inserting error pages when a document or page can't be merged. Use for formal submittals.</span>
+            </span>
+          </label>
+        </div>
+
+        <div className="mb-8 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input type="checkbox" className="mt-1" checked={dividers} disabled={isGenerating} onChange={e => onUpdateGenerationOptions({ dividers: e.target.checked })} />
+            <span>
+              <span className="font-medium text-gray-900 dark:text-white">Divider pages</span>
+              <span className="block text-sm text-gray-500 dark:text-gray-400">Start each document with a tabbed divider showing its title, description, version and page count, colored by document type.</span>
+            </span>
+          </label>
+        </div>
+
+        <div className="mb-8 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input type="checkbox" className="mt-1" checked={offlineMode} disabled={isGenerating} onChange={e => updateOfflineMode(e.target.checked)} />
+            <span>
+              <span className="font-medium text-gray-900 dark:text-white">Offline mode</span>
+              <span className="block text-sm text-gray-500 dark:text-gray-400">Generate the packet in your browser instead of on the PDF worker. Uses the document catalog bundled with the app; submittal numbers are only stamped on resubmittals. The browser is also used automatically when the worker can't be reached.</span>
+            </span>
+          </label>
+        </div>
+
+        <div className="mb-8 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-3">Page Numbers</h3>
+          <PageNumberingOptions numbering={numbering} onChange={numbering => onUpdateGenerationOptions({ numbering })} disabled={isGenerating} />
+        </div>
+
+        <div className="mb-8 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-3">Running Header</h3>
+          <RunningHeaderOptions runningHeader={runningHeader} onChange={runningHeader => onUpdateGenerationOptions({ runningHeader })} disabled={isGenerating} />
+        </div>
+
+        <div className="mb-8 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-3">Submittal Number</h3>
+          <SubmittalNumberingOptions
+            submittal={submittal}
+            onChange={submittal => onUpdateGenerationOptions({ submittal })}
+            projectNumber={formData.projectNumber}
+            pageNumberPosition={numbering.enabled ? numbering.position : undefined}
+            disabled={isGenerating}
+          />
+        </div>
+
+        {!isGenerating && failures.length > 0 && (
+          <div className="mb-8 p-4 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+            <h3 className="font-semibold text-red-800 dark:text-red-200 mb-2">Packet not generated: {failures.length} failure{failures.length !== 1 ? 's' : ''}</h3>
+            <ul className="space-y-1 text-sm text-red-700 dark:text-red-300 list-disc list-inside">
+              {failures.map((failure, index) => (
+                <li key={index}>
+                  <span className="font-medium">{failure.documentName}{failure.page ? `, page ${failure.page}` : ''}</span>: {failure.reason}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {isGenerating && (
+          <div className="mb-8 p-4 bg-primary-50 dark:bg-primary-900/20 rounded-lg border border-primary-200 dark:border-primary-800">
+            <div className="flex justify-between items-center gap-4 mb-3">
+              <p className="text-primary-700 dark:text-primary-300 font-medium truncate">{progressLabel}</p>
+              <button onClick={handleCancel} className="btn btn-outline btn-sm">Cancel</button>
+            </div>
+            <div className="bg-primary-100 dark:bg-primary-900/40 rounded-full h-2 overflow-hidden">
+              <motion.div className="h-full bg-primary-500 rounded-full" initial={{ width: 0 }} animate={{ width: `${progressPercent}%` }} transition={{ duration: 0.4 }} />
+            </div>
+          </div>
+        )}
+
+        {!isGenerating && generatedPacket?.report && (
+          <div className="mb-8">
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Generation Report</h3>
+            <PacketReportSummary report={generatedPacket.report} />
+            {hasProblems(generatedPacket) && (
+              <div className="flex justify-end mt-4">
+                <button onClick={() => handleDownload(generatedPacket)} className="btn btn-outline">Download Anyway</button>
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="flex justify-between pt-8 border-t border-gray-200 dark:border-gray-700 gap-2">
           <motion.button onClick={() => { console.log('Navigating back to arrangement'); onPrevious(); }} whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} className="btn btn-outline btn-lg">Back to Arrangement</motion.button>
-          <motion.button onClick={handlePreview} disabled={isGenerating || sortedDocs.length === 0} whileHover={!(isGenerating || sortedDocs.length === 0) ? { scale: 1.02 } : {}} whileTap={!(isGenerating || sortedDocs.length === 0) ? { scale: 0.98 } : {}} className={cn('btn btn-outline btn-lg min-w-24', (isGenerating || sortedDocs.length === 0) && 'opacity-50 cursor-not-allowed')}>{isGenerating ? 'Generating...' : 'Preview Packet'}</motion.button>
+          <motion.button onClick={handlePreview} disabled={isGenerating || sortedDocs.length === 0} whileHover={!(isGenerating || sortedDocs.length === 0) ? { scale: 1.02 } : {}} whileTap={!(isGenerating || sortedDocs.length === 0) ? { scale: 0.98 } : {}} className={cn('btn btn-outline btn-lg min-w-24', (isGenerating || sortedDocs.length === 0) && 'opacity-50 cursor-not-allowed')}>Preview Packet</motion.button>
           <motion.button onClick={handleGenerate} disabled={isGenerating || sortedDocs.length === 0} whileHover={!(isGenerating || sortedDocs.length === 0) ? { scale: 1.02 } : {}} whileTap={!(isGenerating || sortedDocs.length === 0) ? { scale: 0.98 } : {}} className={cn('btn btn-primary btn-lg min-w-24', (isGenerating || sortedDocs.length === 0) && 'opacity-50 cursor-not-allowed')}>{isGenerating ? 'Generating...' : 'Generate Packet'}</motion.button>
         </div>
       </div>
+      {showPreview && (
+        <PagePreviewDialog
+          title="Packet preview"
+          load={() => packetPreview.packetPages(sortedDocs, { dividers, coverTemplate, product: formData.product || '' })}
+          onClose={() => setShowPreview(false)}
+        />
+      )}
     </motion.div>
   );
 };
@@ -1,12 +1,15 @@
 import { useState, useMemo, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { cn, getUniqueProducts } from '@/utils';
+import { presetFormData, type Preset } from '@/services/presets';
+import PresetPicker from '@/components/PresetPicker';
 import type { ProjectFormData, SelectedDocument } from '@/types';
 
 interface ProjectFormProps {
   formData: Partial<ProjectFormData>;
   selectedDocuments: SelectedDocument[];
   onUpdateFormData: (data: Partial<ProjectFormData>) => void;
+  onUpdateSelectedDocuments: (documents: SelectedDocument[]) => void;
   onNext: () => void;
 }
 
@@ -14,6 +17,7 @@ export default function ProjectForm({
   formData,
   selectedDocuments,
   onUpdateFormData,
+  onUpdateSelectedDocuments,
   onNext,
 }: ProjectFormProps) {
   const [projectName, setProjectName] = useState(formData.projectName || '');
@@ -110,6 +114,38 @@ export default function ProjectForm({
     });
   }, [selectedDocuments]);
 
+  // A preset sets the checkboxes and product, and picks the documents for the next step
+  const applyPreset = (preset: Preset, documents: SelectedDocument[]) => {
+    const { status, submittalType, product: presetProduct } = presetFormData(preset);
+    if (status) {
+      setStatusForReview(status.forReview);
+      setStatusForApproval(status.forApproval);
+      setStatusForRecord(status.forRecord);
+      setStatusForInformationOnly(status.forInformationOnly);
+    }
+    if (submittalType) {
+      setSubmittalTds(submittalType.tds);
+      setSubmittalThreePartSpecs(submittalType.threePartSpecs);
+      setSubmittalTestReportEsr5194(submittalType.testReportIccEsr5194);
+      setSubmittalTestReportEsl1645(submittalType.testReportIccEsl1645);
+      setSubmittalFireAssembly(submittalType.fireAssembly);
+      setSubmittalFireAssembly01(submittalType.fireAssembly01);
+      setSubmittalFireAssembly02(submittalType.fireAssembly02);
+      setSubmittalFireAssembly03(submittalType.fireAssembly03);
+      setSubmittalMsds(submittalType.msds);
+      setSubmittalLeedGuide(submittalType.leedGuide);
+      setSubmittalInstallationGuide(submittalType.installationGuide);
+      setSubmittalWarranty(submittalType.warranty);
+      setSubmittalSamples(submittalType.samples);
+      setSubmittalOther(submittalType.other);
+      setSubmittalOtherText(submittalType.otherText || '');
+    }
+    if (presetProduct) {
+      setProduct(presetProduct);
+    }
+    onUpdateSelectedDocuments(documents);
+  };
+
   // Check if at least one status is selected
   const isStatusValid = statusForReview || statusForApproval || statusForRecord || statusForInformationOnly;
 
@@ -201,6 +237,10 @@ export default function ProjectForm({
           </p>
         </div>
 
+        <div className="max-w-4xl mx-auto">
+          <PresetPicker selectedDocuments={selectedDocuments} onApply={applyPreset} />
+        </div>
+
         {/* Form */}
         <form id="form" onSubmit={handleSubmit} className="space-y-8 max-w-4xl mx-auto">
 
@@ -21,46 +21,5 @@ loadDocuments();
 
 export { availableDocuments }
 
-// Document type configurations
-export const documentTypeConfig = {
-  TDS: {
-    color: 'blue',
-    icon: '📋',
-    priority: 1,
-  },
-  ESR: {
-    color: 'green',
-    icon: '✅',
-    priority: 2,
-  },
-  MSDS: {
-    color: 'red',
-    icon: '⚠️',
-    priority: 8,
-  },
-  LEED: {
-    color: 'emerald',
-    icon: '🌿',
-    priority: 6,
-  },
-  Installation: {
-    color: 'orange',
-    icon: '🔧',
-    priority: 3,
-  },
-  warranty: {
-    color: 'purple',
-    icon: '🛡️',
-    priority: 4,
-  },
-  Acoustic: {
-    color: 'indigo',
-    icon: '🔊',
-    priority: 7,
-  },
-  PartSpec: {
-    color: 'gray',
-    icon: '📐',
-    priority: 5,
-  },
-};
+// Document type configurations, shared with the packet pipeline for divider colors
+export { documentTypeConfig } from '@shared/documentTypes'
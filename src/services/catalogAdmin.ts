@@ -0,0 +1,98 @@
+import type { CatalogCheckResult, CatalogEntry, StoredCatalogFile } from '@shared/catalog'
+import type { FieldErrors } from '@shared/schema'
+
+const ADMIN_TOKEN_KEY = 'pdf-packet-builder-admin-token'
+
+export interface AdminCatalog {
+  entries: CatalogEntry[]
+  // Document store the worker reads from, e.g. "r2"
+  source: string
+  // Only r2 and kv stores can be published to
+  writable: boolean
+}
+
+// A failed admin request, with the worker's per-field (or per-document id) errors
+export class CatalogAdminError extends Error {
+  constructor(message: string, public status: number, public fieldErrors: FieldErrors = {}) {
+    super(message)
+    this.name = 'CatalogAdminError'
+  }
+}
+
+/**
+ * Client for the worker's /admin catalog endpoints. The token is kept for
+ * the browser session only.
+ */
+export class CatalogAdmin {
+  private workerUrl: string
+
+  constructor() {
+    this.workerUrl = import.meta.env.VITE_WORKER_URL || 'http://localhost:8787'
+  }
+
+  get token(): string | null {
+    return sessionStorage.getItem(ADMIN_TOKEN_KEY)
+  }
+
+  set token(token: string | null) {
+    if (token) {
+      sessionStorage.setItem(ADMIN_TOKEN_KEY, token)
+    } else {
+      sessionStorage.removeItem(ADMIN_TOKEN_KEY)
+    }
+  }
+
+  async load(): Promise<AdminCatalog> {
+    return this.request<AdminCatalog>('GET', '/admin/catalog')
+  }
+
+  /**
+   * Store a PDF in the document store. It isn't listed until an entry that
+   * references it is published.
+   */
+  async uploadFile(file: File): Promise<StoredCatalogFile> {
+    const body = new FormData()
+    body.append('file', file)
+    return this.request<StoredCatalogFile>('POST', '/admin/documents', body)
+  }
+
+  async check(entries: CatalogEntry[]): Promise<CatalogCheckResult[]> {
+    const { results } = await this.request<{ results: CatalogCheckResult[] }>('POST', '/admin/catalog/check', { entries })
+    return results
+  }
+
+  async publish(entries: CatalogEntry[]): Promise<CatalogEntry[]> {
+    const { entries: published } = await this.request<{ entries: CatalogEntry[] }>('PUT', '/admin/catalog', { entries })
+    return published
+  }
+
+  private async request<T>(method: string, path: string, body?: FormData | object): Promise<T> {
+    const headers: Record<string, string> = { Authorization: `Bearer ${this.token || ''}` }
+    if (body && !(body instanceof FormData)) {
+      headers['Content-Type'] = 'application/json'
+    }
+
+    const response = await fetch(`${this.workerUrl}${path}`, {
+      method,
+      headers,
+      body: body instanceof FormData ? body : body && JSON.stringify(body),
+    })
+
+    if (!response.ok) {
+      let message = `Worker error: ${response.status} ${response.statusText}`
+      let fieldErrors: FieldErrors = {}
+      try {
+        const errorData = await response.json()
+        message = errorData.details ? `${errorData.error} - ${errorData.details}` : errorData.error || message
+        fieldErrors = errorData.fieldErrors || {}
+      } catch {
+        // Not JSON; keep the status line
+      }
+      throw new CatalogAdminError(message, response.status, fieldErrors)
+    }
+    return response.json()
+  }
+}
+
+// Export singleton instance
+export const catalogAdmin = new CatalogAdmin()
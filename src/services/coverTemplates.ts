@@ -0,0 +1,39 @@
+import { COVER_TEMPLATES_PATH, parseCoverTemplates, type CoverTemplate } from '@shared/coverTemplates'
+
+/**
+ * Cover templates registered in the bundled cover-templates.json, for
+ * choosing a packet's cover and previewing it
+ */
+export class CoverTemplateStore {
+  private templates: Promise<CoverTemplate[]> | null = null
+
+  /**
+   * Registered templates. A missing or broken registry only logs, since
+   * packets then get a generated cover page.
+   */
+  async fetchAll(): Promise<CoverTemplate[]> {
+    if (!this.templates) {
+      this.templates = fetch(`/${COVER_TEMPLATES_PATH}`)
+        .then(response => {
+          if (!response.ok) {
+            throw new Error(`Failed to fetch cover templates: ${response.status} ${response.statusText}`)
+          }
+          return response.json()
+        })
+        .then(json => parseCoverTemplates(json, COVER_TEMPLATES_PATH))
+        .catch(error => {
+          console.error('Error fetching cover templates:', error)
+          return []
+        })
+    }
+    return this.templates
+  }
+
+  // Where the app serves a template's PDF
+  templateUrl(template: CoverTemplate): string {
+    return `/${encodeURI(template.path)}`
+  }
+}
+
+// Export singleton instance
+export const coverTemplateStore = new CoverTemplateStore()
@@ -0,0 +1,58 @@
+import { getLatestVersionId, getSupersededBy, isExpired } from '@shared/catalog'
+import type { Document, SelectedDocument } from '@/types'
+
+export interface OutdatedDocument {
+  selected: SelectedDocument
+  // The catalog's newest version, when this one has been superseded
+  latest?: Document
+  // Expiry date, when this version has expired
+  expired?: string
+}
+
+/**
+ * Selected catalog documents that have been superseded or have expired,
+ * judged by the current catalog rather than the copy saved with the packet
+ */
+export function findOutdatedDocuments(selectedDocuments: SelectedDocument[], catalog: Document[]): OutdatedDocument[] {
+  const byId = new Map(catalog.map(doc => [doc.id, doc]))
+  const supersededBy = getSupersededBy(catalog)
+  const outdated: OutdatedDocument[] = []
+
+  for (const selected of selectedDocuments) {
+    if (!selected.selected || selected.document.source === 'upload') continue
+    const current = byId.get(selected.document.id)
+    if (!current) continue
+
+    const latest = byId.get(getLatestVersionId(current.id, supersededBy))
+    const superseded = latest && latest.id !== current.id ? latest : undefined
+    const expired = isExpired(current) ? current.expires : undefined
+    if (superseded || expired) {
+      outdated.push({ selected, latest: superseded, expired })
+    }
+  }
+  return outdated
+}
+
+/**
+ * Swap superseded documents for their newest version, keeping their place
+ * in the packet. One that is already in the packet just drops the old entry.
+ */
+export function upgradeDocuments(selectedDocuments: SelectedDocument[], outdated: OutdatedDocument[]): SelectedDocument[] {
+  const upgrades = new Map(
+    outdated
+      .filter(item => item.latest)
+      .map(item => [item.selected.id, item.latest!])
+  )
+  const selectedIds = new Set(
+    selectedDocuments.filter(doc => doc.selected).map(doc => doc.document.id)
+  )
+
+  return selectedDocuments.flatMap(doc => {
+    const latest = upgrades.get(doc.id)
+    if (!latest) return [doc]
+    if (selectedIds.has(latest.id)) return []
+    selectedIds.add(latest.id)
+    // Page numbers don't carry over to a new version of the document
+    return [{ ...doc, document: latest, pages: undefined }]
+  })
+}
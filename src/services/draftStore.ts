@@ -0,0 +1,155 @@
+import { DEFAULT_GENERATION_OPTIONS } from '@shared/schema'
+import type { AppState, Draft, DraftState } from '@/types'
+import { generateId, storage } from '@/utils'
+
+const DB_NAME = 'pdf-packet-builder'
+const DB_VERSION = 3
+const DRAFTS = 'drafts'
+
+// The single packet the app kept in localStorage before drafts existed
+export const LEGACY_STATE_KEY = 'pdf-packet-builder-state'
+
+export const UNTITLED_DRAFT = 'Untitled packet'
+
+/**
+ * Database upgrades, by the version they upgrade to. Opening an older
+ * database runs every step after its version, in order.
+ */
+const migrations: Record<number, (db: IDBDatabase, transaction: IDBTransaction) => void> = {
+  1: (db, transaction) => {
+    const drafts = db.createObjectStore(DRAFTS, { keyPath: 'id' })
+    drafts.createIndex('updatedAt', 'updatedAt')
+
+    // Carry over the packet that was being built before the upgrade
+    const legacy = storage.get<AppState>(LEGACY_STATE_KEY)
+    if (legacy && (legacy.formData?.projectName || legacy.selectedDocuments?.length)) {
+      transaction.objectStore(DRAFTS).add(newDraft(toDraftState(legacy)))
+    }
+  },
+  // Generation options moved into the draft
+  2: (_db, transaction) => {
+    const cursorRequest = transaction.objectStore(DRAFTS).openCursor()
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result
+      if (!cursor) return
+      const draft: Draft = cursor.value
+      cursor.update({ ...draft, state: { ...draft.state, generationOptions: DEFAULT_GENERATION_OPTIONS } })
+      cursor.continue()
+    }
+  },
+  // Divider pages became optional; existing drafts keep them
+  3: (_db, transaction) => {
+    const cursorRequest = transaction.objectStore(DRAFTS).openCursor()
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result
+      if (!cursor) return
+      const draft: Draft = cursor.value
+      cursor.update({ ...draft, state: { ...draft.state, generationOptions: { ...draft.state.generationOptions, dividers: true } } })
+      cursor.continue()
+    }
+  },
+}
+
+// Named packet drafts, kept in IndexedDB so several projects can be in progress at once
+export class DraftStore {
+  private db: Promise<IDBDatabase> | null = null
+
+  async list(): Promise<Draft[]> {
+    const drafts = await this.request<Draft[]>('readonly', store => store.getAll())
+    return drafts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+  }
+
+  async get(id: string): Promise<Draft | undefined> {
+    return this.request<Draft | undefined>('readonly', store => store.get(id))
+  }
+
+  async create(state: DraftState, name = ''): Promise<Draft> {
+    const draft = newDraft(state, name)
+    await this.request('readwrite', store => store.add(draft))
+    return draft
+  }
+
+  /**
+   * Store a draft's latest state. Resolves to undefined if the draft has
+   * been deleted meanwhile.
+   */
+  async saveState(id: string, state: DraftState): Promise<Draft | undefined> {
+    const draft = await this.get(id)
+    return draft && this.save({ ...draft, state })
+  }
+
+  async rename(id: string, name: string): Promise<Draft | undefined> {
+    const draft = await this.get(id)
+    return draft && this.save({ ...draft, name: name.trim() })
+  }
+
+  async duplicate(id: string): Promise<Draft | undefined> {
+    const draft = await this.get(id)
+    return draft && this.create(structuredClone(draft.state), `${getDraftName(draft)} (copy)`)
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(id))
+  }
+
+  private async save(draft: Draft): Promise<Draft> {
+    const saved = { ...draft, updatedAt: new Date().toISOString() }
+    await this.request('readwrite', store => store.put(saved))
+    return saved
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+        request.onupgradeneeded = (event) => {
+          for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+            migrations[version]?.(request.result, request.transaction!)
+          }
+        }
+        request.onsuccess = () => {
+          // Only forget the legacy state once it is safely in the database
+          storage.remove(LEGACY_STATE_KEY)
+          resolve(request.result)
+        }
+        request.onerror = () => reject(request.error)
+      })
+    }
+    return this.db
+  }
+
+  private async request<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(DRAFTS, mode)
+      const request = operation(transaction.objectStore(DRAFTS))
+      transaction.oncomplete = () => resolve(request.result as T)
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }
+}
+
+// Export singleton instance
+export const draftStore = new DraftStore()
+
+export function getDraftName(draft: Draft): string {
+  return draft.name || draft.state.formData.projectName || UNTITLED_DRAFT
+}
+
+// The parts of the app state that belong to a draft rather than the session
+export function toDraftState(state: AppState): DraftState {
+  return {
+    currentStep: state.currentStep || 1,
+    formData: state.formData || {},
+    selectedDocuments: state.selectedDocuments || [],
+    generationOptions: state.generationOptions || DEFAULT_GENERATION_OPTIONS,
+    resubmittalOf: state.resubmittalOf,
+    savedPacketId: state.savedPacketId,
+  }
+}
+
+function newDraft(state: DraftState, name = ''): Draft {
+  const now = new Date().toISOString()
+  return { id: generateId(), name, createdAt: now, updatedAt: now, state }
+}
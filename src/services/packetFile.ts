@@ -0,0 +1,158 @@
+import { z } from 'zod'
+import {
+  DEFAULT_GENERATION_OPTIONS,
+  generationOptionsSchema,
+  getFieldErrors,
+  pageSelectionSchema,
+  projectDataSchema,
+} from '@shared/schema'
+import { pdfService } from '@/services/pdfService'
+import type { Document, Draft, DraftState, SelectedDocument } from '@/types'
+import { downloadFile, generateId } from '@/utils'
+
+export const PACKET_FILE_FORMAT = 'pdf-packet'
+export const PACKET_FILE_VERSION = 1
+export const PACKET_FILE_EXTENSION = '.packet.json'
+
+// Catalog documents by id, with enough detail to notice when the catalog moves on
+const packetFileDocumentSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  type: z.string(),
+  filename: z.string(),
+  size: z.number().nonnegative(),
+  version: z.string().optional(),
+  pages: pageSelectionSchema.optional(),
+})
+
+const packetFileSchema = z.object({
+  format: z.literal(PACKET_FILE_FORMAT),
+  version: z.literal(PACKET_FILE_VERSION),
+  exportedAt: z.string(),
+  name: z.string().optional(),
+  // Drafts may be exported before the project details are complete
+  formData: projectDataSchema.extend({ projectName: z.string() }).partial(),
+  // In packet order
+  documents: z.array(packetFileDocumentSchema),
+  options: generationOptionsSchema,
+})
+
+export type PacketFile = z.infer<typeof packetFileSchema>
+export type PacketFileDocument = z.infer<typeof packetFileDocumentSchema>
+
+export interface PacketExport {
+  filename: string
+  // Uploaded project files stay in the browser and are left out
+  skippedUploads: number
+}
+
+export interface PacketImport {
+  name?: string
+  state: DraftState
+  // Documents the catalog no longer has; dropped from the packet
+  missing: PacketFileDocument[]
+  // Documents whose catalog file differs from the one exported; the current file is used
+  changed: PacketFileDocument[]
+}
+
+/**
+ * Download a draft as a portable .packet.json file
+ */
+export function exportPacket(draft: Draft, name = draft.name): PacketExport {
+  const { formData, selectedDocuments, generationOptions } = draft.state
+  const selected = selectedDocuments
+    .filter(doc => doc.selected)
+    .sort((a, b) => a.order - b.order)
+  const catalogDocuments = selected.filter(doc => doc.document.source !== 'upload')
+
+  const file: PacketFile = {
+    format: PACKET_FILE_FORMAT,
+    version: PACKET_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    name: name || undefined,
+    formData,
+    documents: catalogDocuments.map(({ document, pages }) => ({
+      id: document.id,
+      name: document.name,
+      type: document.type,
+      filename: document.filename,
+      size: document.size,
+      version: document.version,
+      pages,
+    })),
+    options: generationOptions || DEFAULT_GENERATION_OPTIONS,
+  }
+
+  const filename = `${fileBaseName(name || formData.projectName)}${PACKET_FILE_EXTENSION}`
+  const url = URL.createObjectURL(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }))
+  downloadFile(url, filename)
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+
+  return { filename, skippedUploads: selected.length - catalogDocuments.length }
+}
+
+/**
+ * Read a .packet.json file and match its documents against the current catalog
+ */
+export async function importPacket(source: File): Promise<PacketImport> {
+  let json: unknown
+  try {
+    json = JSON.parse(await source.text())
+  } catch {
+    throw new Error(`${source.name} is not a packet file.`)
+  }
+
+  const header = z.object({ format: z.string(), version: z.number() }).safeParse(json)
+  if (!header.success || header.data.format !== PACKET_FILE_FORMAT) {
+    throw new Error(`${source.name} is not a packet file.`)
+  }
+  if (header.data.version > PACKET_FILE_VERSION) {
+    throw new Error(`${source.name} was exported by a newer version of the app. Please update and try again.`)
+  }
+
+  const validation = packetFileSchema.safeParse(json)
+  if (!validation.success) {
+    const fields = Object.entries(getFieldErrors(validation.error))
+      .map(([field, messages]) => `${field}: ${messages.join(', ')}`)
+    throw new Error(`Invalid packet file - ${fields.join('; ')}`)
+  }
+  const file = validation.data
+
+  const catalog = new Map<string, Document>()
+  for (const document of await pdfService.fetchDocuments()) {
+    catalog.set(document.id, document)
+  }
+
+  const missing: PacketFileDocument[] = []
+  const changed: PacketFileDocument[] = []
+  const selectedDocuments: SelectedDocument[] = []
+  for (const exported of file.documents) {
+    const document = catalog.get(exported.id)
+    if (!document) {
+      missing.push(exported)
+      continue
+    }
+    if (document.filename !== exported.filename || document.size !== exported.size || document.version !== exported.version) {
+      changed.push(exported)
+    }
+    selectedDocuments.push({ id: generateId(), document, selected: true, order: selectedDocuments.length, pages: exported.pages })
+  }
+
+  return {
+    name: file.name,
+    state: {
+      // Start from the documents so the missing ones can be replaced
+      currentStep: selectedDocuments.length > 0 && file.formData.projectName ? 2 : 1,
+      formData: file.formData,
+      selectedDocuments,
+      generationOptions: file.options,
+    },
+    missing,
+    changed,
+  }
+}
+
+function fileBaseName(name: string | undefined): string {
+  const base = (name || 'packet').trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '-')
+  return base || 'packet'
+}
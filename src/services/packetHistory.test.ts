@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import type { SelectedDocument } from '@/types'
+import { compareRevisions } from './packetHistory'
+
+// Selected documents in the order given, named by their ids
+function selection(...ids: string[]): SelectedDocument[] {
+  return ids.map((id, order) => ({
+    id: `selected-${id}`,
+    document: {
+      id,
+      name: id.toUpperCase(),
+      description: '',
+      filename: `${id}.pdf`,
+      url: `/PDFS/${id}.pdf`,
+      size: 0,
+      type: 'TDS',
+      required: false,
+      products: [],
+    },
+    selected: true,
+    order,
+  }))
+}
+
+describe('compareRevisions', () => {
+  it('finds no changes between identical selections', () => {
+    expect(compareRevisions(selection('a', 'b', 'c'), selection('a', 'b', 'c')))
+      .toEqual({ added: [], removed: [], reordered: [] })
+  })
+
+  it('lists added and removed documents by name', () => {
+    expect(compareRevisions(selection('a', 'b'), selection('a', 'c')))
+      .toEqual({ added: ['C'], removed: ['B'], reordered: [] })
+  })
+
+  it('counts only the documents that moved as reordered', () => {
+    expect(compareRevisions(selection('a', 'b', 'c', 'd'), selection('a', 'c', 'd', 'b')).reordered).toEqual(['B'])
+    expect(compareRevisions(selection('a', 'b', 'c'), selection('c', 'b', 'a')).reordered).toHaveLength(2)
+  })
+
+  it('does not count documents as moved when others are added or removed around them', () => {
+    expect(compareRevisions(selection('a', 'b', 'c'), selection('x', 'a', 'c')))
+      .toEqual({ added: ['X'], removed: ['B'], reordered: [] })
+  })
+
+  it('follows the order field and skips unselected documents', () => {
+    const previous = selection('a', 'b', 'c')
+    const current = selection('a', 'b', 'c')
+    current[0].order = 5
+    current[1].selected = false
+
+    expect(compareRevisions(previous, current)).toEqual({ added: [], removed: ['B'], reordered: ['A'] })
+  })
+
+  it('matches documents by id, not by name', () => {
+    const current = selection('a', 'b')
+    current[1].document = { ...current[1].document, name: 'Renamed' }
+
+    expect(compareRevisions(selection('a', 'b'), current)).toEqual({ added: [], removed: [], reordered: [] })
+  })
+})
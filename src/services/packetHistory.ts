@@ -0,0 +1,119 @@
+import type { RevisionChanges, SavedPacket, SelectedDocument } from '@/types'
+import { generateId, storage } from '@/utils'
+
+const HISTORY_KEY = 'pdf-packet-builder-history'
+
+// Downloaded packets and their revisions, kept in localStorage
+export class PacketHistory {
+  list(): SavedPacket[] {
+    return storage.get<SavedPacket[]>(HISTORY_KEY) || []
+  }
+
+  get(id: string): SavedPacket | undefined {
+    return this.list().find(packet => packet.id === id)
+  }
+
+  /**
+   * All revisions of one submittal, oldest first
+   */
+  revisions(chainId: string): SavedPacket[] {
+    return this.list()
+      .filter(packet => packet.chainId === chainId)
+      .sort((a, b) => a.revision - b.revision)
+  }
+
+  /**
+   * The newest revision of each submittal, most recently saved first
+   */
+  latestRevisions(): SavedPacket[] {
+    const latest = new Map<string, SavedPacket>()
+    for (const packet of this.list()) {
+      const current = latest.get(packet.chainId)
+      if (!current || packet.revision > current.revision) {
+        latest.set(packet.chainId, packet)
+      }
+    }
+    return Array.from(latest.values()).sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+  }
+
+  /**
+   * Save a packet, replacing the one with `id` if given
+   */
+  save(packet: Omit<SavedPacket, 'id' | 'savedAt'>, id?: string): SavedPacket {
+    const saved: SavedPacket = {
+      ...packet,
+      id: id || generateId(),
+      savedAt: new Date().toISOString(),
+    }
+    storage.set(HISTORY_KEY, [...this.list().filter(existing => existing.id !== saved.id), saved])
+    return saved
+  }
+}
+
+// Export singleton instance
+export const packetHistory = new PacketHistory()
+
+/**
+ * Compare the selected documents of two revisions. Of the documents both
+ * share, the fewest that account for the new order count as reordered.
+ */
+export function compareRevisions(previous: SelectedDocument[], current: SelectedDocument[]): RevisionChanges {
+  const ordered = (documents: SelectedDocument[]) =>
+    documents.filter(doc => doc.selected).sort((a, b) => a.order - b.order)
+  const before = ordered(previous)
+  const after = ordered(current)
+  const beforeIds = new Set(before.map(doc => doc.document.id))
+  const afterIds = new Set(after.map(doc => doc.document.id))
+
+  const keptBefore = before.filter(doc => afterIds.has(doc.document.id)).map(doc => doc.document.id)
+  const keptAfter = after.filter(doc => beforeIds.has(doc.document.id))
+  const inPlace = longestCommonSubsequence(keptBefore, keptAfter.map(doc => doc.document.id))
+
+  return {
+    added: after.filter(doc => !beforeIds.has(doc.document.id)).map(doc => doc.document.name),
+    removed: before.filter(doc => !afterIds.has(doc.document.id)).map(doc => doc.document.name),
+    reordered: keptAfter.filter(doc => !inPlace.has(doc.document.id)).map(doc => doc.document.name),
+  }
+}
+
+function longestCommonSubsequence(a: string[], b: string[]): Set<string> {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const common = new Set<string>()
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      common.add(a[i])
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+  return common
+}
+
+export function hasChanges(changes: RevisionChanges): boolean {
+  return changes.added.length > 0 || changes.removed.length > 0 || changes.reordered.length > 0
+}
+
+// One line for the cover page's revision block
+export function describeChanges(changes: RevisionChanges): string {
+  if (!hasChanges(changes)) return 'No document changes'
+
+  return [
+    changes.added.length > 0 && `Added ${changes.added.join(', ')}`,
+    changes.removed.length > 0 && `Removed ${changes.removed.join(', ')}`,
+    changes.reordered.length > 0 && `Reordered ${changes.reordered.length} document${changes.reordered.length !== 1 ? 's' : ''}`,
+  ].filter(Boolean).join('; ')
+}
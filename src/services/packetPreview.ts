@@ -0,0 +1,188 @@
+import { formatDocumentVersion } from '@shared/catalog'
+import { selectCoverTemplate } from '@shared/coverTemplates'
+import { getTableOfContentsPageCount, TOC_ENTRIES_PER_PAGE } from '@shared/packetLayout'
+import { selectPageIndices } from '@shared/pageRanges'
+import { PDFChecker, type PDFCheckResult } from '@shared/pdfChecker'
+import { coverTemplateStore } from '@/services/coverTemplates'
+import { uploadStore } from '@/services/uploadStore'
+import type { Document, SelectedDocument } from '@/types'
+
+export interface PacketPreviewOptions {
+  // Divider page before each document; on unless set to false
+  dividers?: boolean
+  // Cover template registry id; picked by product when left out
+  coverTemplate?: string
+  product: string
+}
+
+export interface TocPreviewEntry {
+  name: string
+  startPage: number
+}
+
+// One page of a preview. Generated cover, table of contents and divider
+// pages are drawn by the worker, so the preview sketches them instead of rendering them.
+export type PreviewPage = {
+  // Packet page number; only set in packet previews
+  packetPage?: number
+  // Shown under the page, e.g. "Page 3 of 21"
+  label: string
+  // Left out of the packet by the document's page selection
+  excluded?: boolean
+} & (
+  | { kind: 'pdf'; url: string; pageNumber: number }
+  | { kind: 'image'; image: File }
+  | { kind: 'cover'; url: string; pageNumber: number }
+  // Drawn by the worker when there is no cover template to fill in
+  | { kind: 'generated-cover'; title: string[] }
+  | { kind: 'toc'; entries: TocPreviewEntry[] }
+  | { kind: 'divider'; tab: number; name: string; type: string; version: string; description: string }
+  | { kind: 'error'; name: string; message: string }
+)
+
+// Page count of a document, or why the worker won't be able to merge it
+type DocumentPages = { pageCount: number } | { error: string }
+
+/**
+ * Builds previews of documents and packets in the browser, without asking
+ * the worker to generate anything
+ */
+export class PacketPreview {
+  private checks = new Map<string, Promise<PDFCheckResult>>()
+
+  /**
+   * Every page of one document; pages its selection leaves out are marked
+   */
+  async documentPages(document: Document, pages?: string): Promise<PreviewPage[]> {
+    const loaded = await this.loadPages(document)
+    if ('error' in loaded) {
+      return [{ kind: 'error', name: document.name, message: loaded.error, label: 'Could not be loaded' }]
+    }
+
+    const included = new Set(selectPageIndices(pages, loaded.pageCount).indices)
+    return Array.from({ length: loaded.pageCount }, (_, index) => ({
+      ...this.sourcePage(document, index + 1),
+      label: `Page ${index + 1} of ${loaded.pageCount}`,
+      excluded: !included.has(index),
+    }))
+  }
+
+  /**
+   * The packet the worker would build: the cover template it would fill
+   * in, the table of contents, then a divider (unless left out) and the selected
+   * pages of each document. Documents that can't be merged get an error
+   * page, as in lenient packets.
+   */
+  async packetPages(selectedDocuments: SelectedDocument[], { dividers = true, coverTemplate, product }: PacketPreviewOptions): Promise<PreviewPage[]> {
+    const documents = selectedDocuments
+      .filter(doc => doc.selected)
+      .sort((a, b) => a.order - b.order)
+
+    // Same choice as the worker; a template that can't be read gets a generated cover
+    const template = selectCoverTemplate(await coverTemplateStore.fetchAll(), coverTemplate, product)
+    const coverUrl = template ? coverTemplateStore.templateUrl(template) : undefined
+    const cover = template && coverUrl ? await this.check(coverUrl, template.path, 0) : undefined
+    const coverPages: PreviewPage[] = coverUrl && cover?.isAccessible && cover.pageCount
+      ? Array.from({ length: cover.pageCount }, (_, index) => ({
+        kind: 'cover',
+        url: coverUrl,
+        pageNumber: index + 1,
+        packetPage: index + 1,
+        label: 'Submittal form',
+      }))
+      : [{ kind: 'generated-cover', title: template?.cover?.title ?? ['Submittal Form'], packetPage: 1, label: 'Submittal form' }]
+    const coverPageCount = coverPages.length
+
+    const tocPageCount = getTableOfContentsPageCount(documents.length)
+    let currentPage = coverPageCount + tocPageCount + 1
+    const entries: TocPreviewEntry[] = []
+    const body: PreviewPage[] = []
+
+    // One document at a time, like the worker
+    for (const [index, { document, pages }] of documents.entries()) {
+      entries.push({ name: document.name, startPage: currentPage })
+      if (dividers) {
+        const upload = document.source === 'upload'
+        body.push({
+          kind: 'divider',
+          tab: index + 1,
+          name: document.name,
+          type: document.type,
+          version: upload ? '' : formatDocumentVersion(document),
+          description: upload ? '' : document.description,
+          packetPage: currentPage++,
+          label: 'Divider',
+        })
+      }
+
+      const loaded = await this.loadPages(document)
+      const indices = 'error' in loaded ? [] : selectPageIndices(pages, loaded.pageCount).indices
+      if ('error' in loaded || indices.length === 0) {
+        body.push({
+          kind: 'error',
+          name: document.name,
+          message: 'error' in loaded ? loaded.error : 'No pages selected',
+          packetPage: currentPage++,
+          label: 'Error page',
+        })
+        continue
+      }
+
+      for (const index of indices) {
+        body.push({
+          ...this.sourcePage(document, index + 1),
+          packetPage: currentPage++,
+          label: `${document.name}, page ${index + 1}`,
+        })
+      }
+    }
+
+    const tocPages: PreviewPage[] = Array.from({ length: tocPageCount }, (_, index) => ({
+      kind: 'toc',
+      entries: entries.slice(index * TOC_ENTRIES_PER_PAGE, (index + 1) * TOC_ENTRIES_PER_PAGE),
+      packetPage: coverPageCount + index + 1,
+      label: 'Table of contents',
+    }))
+
+    return [...coverPages, ...tocPages, ...body]
+  }
+
+  /**
+   * Page count from PDFChecker, the same check uploads go through.
+   * Uploaded photos are one page per image.
+   */
+  async loadPages(document: Document): Promise<DocumentPages> {
+    if (document.source === 'upload' && document.type === 'Photos') {
+      return { pageCount: uploadStore.get(document.id)?.length ?? document.pageCount ?? 0 }
+    }
+
+    const check = await this.check(document.url, document.filename, document.size)
+    if (check.isEncrypted) {
+      return { error: 'PDF is encrypted and cannot be merged' }
+    }
+    if (!check.isAccessible || check.pageCount === undefined) {
+      return { error: check.error || 'PDF could not be read' }
+    }
+    return { pageCount: check.pageCount }
+  }
+
+  private sourcePage(document: Document, pageNumber: number): PreviewPage {
+    const images = document.source === 'upload' && document.type === 'Photos' ? uploadStore.get(document.id) : undefined
+    const image = images?.[pageNumber - 1]
+    return image
+      ? { kind: 'image', image, label: image.name }
+      : { kind: 'pdf', url: document.url, pageNumber, label: `Page ${pageNumber}` }
+  }
+
+  private check(url: string, filename: string, size: number): Promise<PDFCheckResult> {
+    let check = this.checks.get(url)
+    if (!check) {
+      check = PDFChecker.checkPDF(url, filename, size)
+      this.checks.set(url, check)
+    }
+    return check
+  }
+}
+
+// Export singleton instance
+export const packetPreview = new PacketPreview()
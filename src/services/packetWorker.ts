@@ -0,0 +1,101 @@
+import { getSupersededBy, getVersionWarnings, type CatalogEntry } from '@shared/catalog'
+import { COVER_TEMPLATES_PATH, parseCoverTemplates, type CoverTemplate } from '@shared/coverTemplates'
+import {
+  buildPacket,
+  PacketFailedError,
+  type PacketDocumentSource,
+  type PacketProgress,
+} from '@shared/packet/build'
+import type { PacketUploads } from '@shared/packet/uploads'
+import type { PacketFailure, PacketReport } from '@shared/packet/types'
+import type { GeneratePacketRequest } from '@shared/schema'
+
+// Web Worker that builds packets in the browser with the same pipeline as
+// the Cloudflare Worker, so the page stays responsive while pdf-lib works
+
+export interface PacketWorkerRequest {
+  request: GeneratePacketRequest
+  uploads: PacketUploads
+}
+
+export type PacketWorkerMessage =
+  | { type: 'progress'; progress: PacketProgress }
+  | { type: 'completed'; pdfBytes: Uint8Array; report: PacketReport }
+  | { type: 'failed'; error: string; failures?: PacketFailure[] }
+
+// The catalog and documents bundled with the app, read from the same origin
+class BundledCatalog implements PacketDocumentSource {
+  readonly name = 'bundled'
+  private supersededBy: Map<string, string>
+
+  private constructor(private entries: Map<string, CatalogEntry>) {
+    this.supersededBy = getSupersededBy(Array.from(entries.values()))
+  }
+
+  static async load(): Promise<BundledCatalog> {
+    const response = await fetch(resolve('/documents.json'))
+    if (!response.ok) {
+      throw new Error(`Document catalog could not be loaded: ${response.status} ${response.statusText}`)
+    }
+    const entries: CatalogEntry[] = await response.json()
+    return new BundledCatalog(new Map(entries.map(entry => [entry.id, entry])))
+  }
+
+  async getCoverTemplates(): Promise<CoverTemplate[]> {
+    const response = await fetch(resolve(`/${COVER_TEMPLATES_PATH}`))
+    return response.ok ? parseCoverTemplates(await response.json(), COVER_TEMPLATES_PATH) : []
+  }
+
+  async getTemplate(path: string): Promise<ArrayBuffer | null> {
+    const response = await fetch(resolve(`/${path}`))
+    return response.ok ? response.arrayBuffer() : null
+  }
+
+  get(id: string): CatalogEntry | undefined {
+    return this.entries.get(id)
+  }
+
+  versionWarnings(id: string): string[] {
+    return getVersionWarnings(id, this.entries, this.supersededBy)
+  }
+
+  async fetch(id: string): Promise<ArrayBuffer> {
+    const entry = this.entries.get(id)
+    if (!entry) {
+      throw new Error(`Unknown document id: ${id}`)
+    }
+
+    const response = await fetch(resolve(entry.url))
+    if (!response.ok) {
+      throw new Error(`Document not found: ${entry.url} (${response.status})`)
+    }
+    return response.arrayBuffer()
+  }
+}
+
+// Catalog URLs are relative to the app, not to this script
+function resolve(url: string): string {
+  return new URL(url, self.location.origin).toString()
+}
+
+function post(message: PacketWorkerMessage, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer })
+}
+
+self.addEventListener('message', async (event: MessageEvent<PacketWorkerRequest>) => {
+  const { request, uploads } = event.data
+  try {
+    const catalog = await BundledCatalog.load()
+    const { pdfBytes, report } = await buildPacket(catalog, request, {
+      uploads,
+      onProgress: progress => post({ type: 'progress', progress }),
+    })
+    post({ type: 'completed', pdfBytes, report }, [pdfBytes.buffer])
+  } catch (error) {
+    post({
+      type: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      failures: error instanceof PacketFailedError ? error.failures : undefined,
+    })
+  }
+})
@@ -1,6 +1,59 @@
-import type { ProjectFormData, SelectedDocument, Document } from '@/types'
+import {
+  generatePacketRequestSchema,
+  getFieldErrors,
+  PACKET_REQUEST_FIELD,
+  uploadFieldName,
+  type GeneratePacketRequest,
+} from '@shared/schema'
+import { PacketCancelledError, PacketFailedError } from '@shared/packet/build'
+import { detectKind, type PacketUploads } from '@shared/packet/uploads'
+import { uploadStore } from '@/services/uploadStore'
+import type { PacketWorkerMessage, PacketWorkerRequest } from '@/services/packetWorker'
+import { storage } from '@/utils'
+import type {
+  ProjectFormData,
+  SelectedDocument,
+  Document,
+  PacketJobStatus,
+  PacketReport,
+  PacketMode,
+  PageNumbering,
+  RunningHeader,
+  SubmittalNumbering,
+  RevisionEntry,
+} from '@/types'
 
-// Server-side PDF processing using Cloudflare Workers
+// How often to poll the worker for job progress
+const JOB_POLL_INTERVAL_MS = 1000
+
+// Whether the user chose to generate packets in the browser
+const OFFLINE_MODE_KEY = 'pdf-packet-builder-offline-mode'
+
+// Thrown by both the worker and in-browser generation
+export { PacketCancelledError, PacketFailedError }
+
+export interface GeneratePacketOptions {
+  onProgress?: (status: PacketJobStatus) => void
+  signal?: AbortSignal
+  // Cover template registry id; picked by product when left out
+  coverTemplate?: string
+  mode?: PacketMode
+  // Divider page before each document; on unless set to false
+  dividers?: boolean
+  numbering?: PageNumbering
+  runningHeader?: RunningHeader
+  submittal?: SubmittalNumbering
+  // Cover page revision block, current revision last
+  revisions?: RevisionEntry[]
+}
+
+export interface GeneratedPacket {
+  pdfBytes: Uint8Array
+  report?: PacketReport
+}
+
+// Server-side PDF processing using Cloudflare Workers, with the same
+// pipeline run in the browser when the worker can't be reached
 export class PDFService {
   private workerUrl: string
 
@@ -9,13 +62,25 @@ export class PDFService {
     this.workerUrl = import.meta.env.VITE_WORKER_URL || 'http://localhost:8787'
   }
 
+  isOfflineMode(): boolean {
+    return storage.get<boolean>(OFFLINE_MODE_KEY) === true
+  }
+
+  setOfflineMode(enabled: boolean): void {
+    storage.set(OFFLINE_MODE_KEY, enabled)
+  }
+
   /**
-   * Generate PDF packet using Cloudflare Worker (server-side processing)
+   * Generate PDF packet using Cloudflare Worker (server-side processing).
+   * Runs as a worker job so progress can be reported and the job cancelled.
+   * In offline mode, or when the worker can't be reached, the packet is
+   * built in the browser instead.
    */
   async generatePacket(
     formData: Partial<ProjectFormData>,
-    selectedDocuments: SelectedDocument[]
-  ): Promise<Uint8Array> {
+    selectedDocuments: SelectedDocument[],
+    options: GeneratePacketOptions = {}
+  ): Promise<GeneratedPacket> {
     try {
       // Filter and sort selected documents
       const sortedDocs = selectedDocuments
@@ -27,13 +92,14 @@ export class PDFService {
       }
 
       // Prepare request data for the worker
-      const requestData = {
+      const requestData: GeneratePacketRequest = {
         projectData: {
           projectName: formData.projectName || 'Untitled Project',
           submittedTo: formData.submittedTo || 'N/A',
           preparedBy: formData.preparedBy || 'N/A',
           date: formData.date || new Date().toLocaleDateString(),
-          projectNumber: formData.projectNumber || 'N/A',
+          // Submittal sequences are counted per project number, so no placeholder stands in for one
+          projectNumber: formData.projectNumber?.trim() || (options.submittal?.enabled ? undefined : 'N/A'),
           emailAddress: formData.emailAddress || 'N/A',
           phoneNumber: formData.phoneNumber || 'N/A',
           product: formData.product || '3/4-in (20mm)',
@@ -61,32 +127,77 @@ export class PDFService {
           },
         },
         documents: sortedDocs.map(doc => ({
-          id: doc.id,
+          id: doc.document.id,
           name: doc.document.name,
-          url: doc.document.url,
           type: doc.document.type,
-        }))
+          source: doc.document.source || 'catalog',
+          captions: doc.document.captions,
+          pages: doc.pages || undefined,
+        })),
+        coverTemplate: options.coverTemplate,
+        mode: options.mode || 'lenient',
+        dividers: options.dividers,
+        numbering: options.numbering,
+        runningHeader: options.runningHeader,
+        submittal: options.submittal,
+        revisions: options.revisions,
+      }
+
+      // Catch bad input here rather than as a 400 from the worker
+      const validation = generatePacketRequestSchema.safeParse(requestData)
+      if (!validation.success) {
+        const fields = Object.entries(getFieldErrors(validation.error))
+          .map(([field, messages]) => `${field}: ${messages.join(', ')}`)
+        throw new Error(`Invalid packet request - ${fields.join('; ')}`)
+      }
+
+      if (this.isOfflineMode()) {
+        return await this.generateInBrowser(requestData, options)
       }
 
       console.log('Sending request to worker:', this.workerUrl)
       console.log('Request data:', requestData)
 
-      // Send request to Cloudflare Worker
-      const response = await fetch(`${this.workerUrl}/generate-packet`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestData),
-      })
+      // Submit the job to the Cloudflare Worker
+      let response: Response
+      try {
+        response = await fetch(`${this.workerUrl}/jobs`, {
+          method: 'POST',
+          ...this.buildRequestBody(requestData),
+        })
+      } catch (error) {
+        if (!(error instanceof TypeError)) throw error
+
+        console.warn(`PDF Worker at ${this.workerUrl} is unreachable, generating in the browser:`, error)
+        const packet = await this.generateInBrowser(requestData, options)
+        packet.report?.warnings.unshift(`The PDF worker could not be reached, so the packet was generated in the browser`)
+        return packet
+      }
 
       if (!response.ok) {
         const errorText = await response.text()
         throw new Error(`Worker request failed: ${response.status} ${response.statusText} - ${errorText}`)
       }
 
-      // Get PDF bytes from response
-      const pdfBytes = await response.arrayBuffer()
+      const job: PacketJobStatus = await response.json()
+      options.onProgress?.(job)
+
+      const finishedJob = await this.waitForJob(job.id, options)
+      if (finishedJob.state === 'failed') {
+        if (finishedJob.failures?.length) {
+          throw new PacketFailedError(finishedJob.failures)
+        }
+        throw new Error(finishedJob.error || 'Packet job failed')
+      }
+
+      // Get PDF bytes from the finished job
+      const resultResponse = await fetch(`${this.workerUrl}/jobs/${job.id}/result`)
+      if (!resultResponse.ok) {
+        const errorText = await resultResponse.text()
+        throw new Error(`Failed to fetch packet: ${resultResponse.status} ${resultResponse.statusText} - ${errorText}`)
+      }
+
+      const pdfBytes = await resultResponse.arrayBuffer()
       
       if (pdfBytes.byteLength === 0) {
         throw new Error('Received empty PDF from worker')
@@ -94,9 +205,13 @@ export class PDFService {
 
       console.log(`PDF generated successfully: ${pdfBytes.byteLength} bytes`)
       
-      return new Uint8Array(pdfBytes)
+      return { pdfBytes: new Uint8Array(pdfBytes), report: finishedJob.report }
 
     } catch (error) {
+      if (error instanceof PacketCancelledError || error instanceof PacketFailedError) {
+        throw error
+      }
+
       console.error('Error generating packet:', error)
 
       if (error instanceof TypeError && error.message === 'Failed to fetch') {
@@ -112,9 +227,151 @@ export class PDFService {
   }
 
   /**
-   * Fetch document metadata dynamically
+   * Plain JSON, unless there are uploaded files to send along with the
+   * request, in which case multipart form data
+   */
+  private buildRequestBody(requestData: GeneratePacketRequest): RequestInit {
+    const uploads = requestData.documents.filter(doc => doc.source === 'upload')
+    if (uploads.length === 0) {
+      return {
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(requestData),
+      }
+    }
+
+    const formData = new FormData()
+    formData.set(PACKET_REQUEST_FIELD, JSON.stringify(requestData))
+    for (const doc of uploads) {
+      this.getUploadedFiles(doc).forEach(file => formData.append(uploadFieldName(doc.id), file))
+    }
+    // The browser sets the multipart Content-Type with its boundary
+    return { body: formData }
+  }
+
+  private getUploadedFiles(doc: { id: string; name: string }): File[] {
+    const files = uploadStore.get(doc.id)
+    if (!files) {
+      throw new Error(`Uploaded file for ${doc.name} is no longer available. Please upload it again.`)
+    }
+    return files
+  }
+
+  /**
+   * Build the packet in a Web Worker with the same pipeline the Cloudflare
+   * Worker runs, reading catalog documents from the app's own copies.
+   * Aborting the signal stops the Web Worker.
+   */
+  private async generateInBrowser(requestData: GeneratePacketRequest, options: GeneratePacketOptions): Promise<GeneratedPacket> {
+    const { onProgress, signal } = options
+    const uploads = await this.readUploads(requestData)
+    const worker = new Worker(new URL('./packetWorker.ts', import.meta.url), { type: 'module' })
+    const createdAt = new Date().toISOString()
+
+    try {
+      return await new Promise<GeneratedPacket>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(new PacketCancelledError())
+          return
+        }
+        signal?.addEventListener('abort', () => reject(new PacketCancelledError()), { once: true })
+
+        worker.addEventListener('message', (event: MessageEvent<PacketWorkerMessage>) => {
+          const message = event.data
+          if (message.type === 'progress') {
+            onProgress?.({ id: 'browser', state: 'running', ...message.progress, createdAt, updatedAt: new Date().toISOString() })
+          } else if (message.type === 'completed') {
+            console.log(`PDF generated in the browser: ${message.pdfBytes.byteLength} bytes`)
+            resolve({ pdfBytes: message.pdfBytes, report: message.report })
+          } else if (message.failures?.length) {
+            reject(new PacketFailedError(message.failures))
+          } else {
+            reject(new Error(message.error))
+          }
+        })
+        worker.addEventListener('error', event => reject(new Error(event.message || 'Packet worker failed to start')))
+
+        const workerRequest: PacketWorkerRequest = { request: requestData, uploads }
+        worker.postMessage(workerRequest)
+      })
+    } finally {
+      worker.terminate()
+    }
+  }
+
+  // Uploaded files as the packet pipeline takes them, identified by content like the worker does
+  private async readUploads(requestData: GeneratePacketRequest): Promise<PacketUploads> {
+    const uploads: PacketUploads = new Map()
+    for (const doc of requestData.documents.filter(doc => doc.source === 'upload')) {
+      uploads.set(doc.id, await Promise.all(this.getUploadedFiles(doc).map(async file => {
+        const bytes = await file.arrayBuffer()
+        const kind = detectKind(bytes)
+        if (!kind) {
+          throw new Error(`${file.name} is not a PDF, PNG or JPEG file`)
+        }
+        return { name: file.name, kind, bytes }
+      })))
+    }
+    return uploads
+  }
+
+  /**
+   * Poll a packet job until it completes, fails or is cancelled.
+   * Aborting the signal cancels the job on the worker.
+   */
+  private async waitForJob(jobId: string, options: GeneratePacketOptions): Promise<PacketJobStatus> {
+    const { onProgress, signal } = options
+
+    while (true) {
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS))
+
+      if (signal?.aborted) {
+        await this.cancelJob(jobId)
+        throw new PacketCancelledError()
+      }
+
+      const response = await fetch(`${this.workerUrl}/jobs/${jobId}`)
+      if (!response.ok) {
+        throw new Error(`Failed to get job status: ${response.status} ${response.statusText}`)
+      }
+
+      const status: PacketJobStatus = await response.json()
+      onProgress?.(status)
+
+      if (status.state === 'cancelled') {
+        throw new PacketCancelledError()
+      }
+      if (status.state === 'completed' || status.state === 'failed') {
+        return status
+      }
+    }
+  }
+
+  /**
+   * Cancel a running packet job
+   */
+  async cancelJob(jobId: string): Promise<void> {
+    try {
+      await fetch(`${this.workerUrl}/jobs/${jobId}`, { method: 'DELETE' })
+    } catch (error) {
+      console.error('Error cancelling job:', error)
+    }
+  }
+
+  /**
+   * Fetch document metadata dynamically. The worker serves the catalog as
+   * last published; the copy bundled with the app is the fallback.
    */
   async fetchDocuments(): Promise<Document[]> {
+    try {
+      const response = await fetch(`${this.workerUrl}/catalog`)
+      if (response.ok) {
+        return await response.json()
+      }
+      console.warn(`Worker catalog unavailable (${response.status}), using the bundled catalog`)
+    } catch (error) {
+      console.warn('Worker catalog unavailable, using the bundled catalog:', error)
+    }
+
     try {
       const response = await fetch('/documents.json')
       if (!response.ok) {
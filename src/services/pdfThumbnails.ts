@@ -0,0 +1,81 @@
+import { getDocument, GlobalWorkerOptions, type PDFDocumentProxy } from 'pdfjs-dist'
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url'
+
+// pdf.js parses documents in its own web worker
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl
+
+const DEFAULT_THUMBNAIL_WIDTH = 160
+
+/**
+ * Renders PDF pages to small images for previews and choosing pages. Documents and
+ * rendered pages are cached by URL for the session.
+ */
+export class PdfThumbnails {
+  private documents = new Map<string, Promise<PDFDocumentProxy>>()
+  private thumbnails = new Map<string, Promise<string>>()
+
+  /**
+   * Object URL of a PNG of one page (1-based), `width` pixels wide
+   */
+  getThumbnail(url: string, pageNumber: number, width = DEFAULT_THUMBNAIL_WIDTH): Promise<string> {
+    const key = `${url}#${pageNumber}@${width}`
+    let thumbnail = this.thumbnails.get(key)
+    if (!thumbnail) {
+      thumbnail = this.render(url, pageNumber, width)
+      this.thumbnails.set(key, thumbnail)
+      // Let a failed render be retried
+      thumbnail.catch(() => this.thumbnails.delete(key))
+    }
+    return thumbnail
+  }
+
+  // Forget a document, e.g. when an upload is removed
+  async release(url: string): Promise<void> {
+    for (const [key, thumbnail] of this.thumbnails) {
+      if (key.startsWith(`${url}#`)) {
+        this.thumbnails.delete(key)
+        thumbnail.then(URL.revokeObjectURL, () => {})
+      }
+    }
+
+    const pdf = this.documents.get(url)
+    this.documents.delete(url)
+    await pdf?.then(loaded => loaded.destroy(), () => {})
+  }
+
+  private load(url: string): Promise<PDFDocumentProxy> {
+    const cached = this.documents.get(url)
+    if (cached) return cached
+
+    const pdf: Promise<PDFDocumentProxy> = getDocument({ url }).promise
+    this.documents.set(url, pdf)
+    pdf.catch(() => this.documents.delete(url))
+    return pdf
+  }
+
+  private async render(url: string, pageNumber: number, width: number): Promise<string> {
+    const pdf = await this.load(url)
+    const page = await pdf.getPage(pageNumber)
+    const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width })
+
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.ceil(viewport.width)
+    canvas.height = Math.ceil(viewport.height)
+    const context = canvas.getContext('2d')
+    if (!context) {
+      throw new Error('Canvas is not supported')
+    }
+
+    await page.render({ canvasContext: context, viewport }).promise
+    page.cleanup()
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'))
+    if (!blob) {
+      throw new Error(`Page ${pageNumber} could not be rendered`)
+    }
+    return URL.createObjectURL(blob)
+  }
+}
+
+// Export singleton instance
+export const pdfThumbnails = new PdfThumbnails()
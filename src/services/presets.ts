@@ -0,0 +1,182 @@
+import { z } from 'zod'
+import { getFieldErrors, projectStatusSchema, submittalTypeSchema } from '@shared/schema'
+import type { Document, ProjectFormData, SelectedDocument } from '@/types'
+import { downloadFile, generateId, storage } from '@/utils'
+
+const USER_PRESETS_KEY = 'pdf-packet-builder-presets'
+
+export const PRESET_FILE_FORMAT = 'pdf-packet-presets'
+export const PRESET_FILE_VERSION = 1
+
+export const presetSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, 'Preset name is required'),
+  description: z.string().optional(),
+  // Catalog document ids, in packet order
+  documentIds: z.array(z.string().min(1)),
+  // Form defaults; checkboxes left out of a given group are cleared
+  status: projectStatusSchema.partial().optional(),
+  submittalType: submittalTypeSchema.partial().optional(),
+  product: z.string().optional(),
+})
+
+// Both the bundled presets and exported user presets use this file format
+const presetFileSchema = z.object({
+  format: z.literal(PRESET_FILE_FORMAT),
+  version: z.literal(PRESET_FILE_VERSION),
+  presets: z.array(presetSchema),
+})
+
+export type Preset = z.infer<typeof presetSchema>
+
+export interface PresetDocuments {
+  selectedDocuments: SelectedDocument[]
+  // Preset document ids the catalog does not have
+  missing: string[]
+}
+
+/**
+ * Packet presets: the bundled set in /presets.json plus the user's own,
+ * kept in localStorage
+ */
+export class PresetStore {
+  private bundled: Promise<Preset[]> | null = null
+
+  /**
+   * Bundled presets. A missing or broken presets.json only logs, since
+   * presets are optional.
+   */
+  async fetchBundled(): Promise<Preset[]> {
+    if (!this.bundled) {
+      this.bundled = fetch('/presets.json')
+        .then(response => {
+          if (!response.ok) {
+            throw new Error(`Failed to fetch presets: ${response.status} ${response.statusText}`)
+          }
+          return response.json()
+        })
+        .then(json => parsePresetFile(json, 'presets.json'))
+        .catch(error => {
+          console.error('Error fetching presets:', error)
+          return []
+        })
+    }
+    return this.bundled
+  }
+
+  listUser(): Preset[] {
+    return storage.get<Preset[]>(USER_PRESETS_KEY) || []
+  }
+
+  /**
+   * Save a user preset, replacing the one with the same id
+   */
+  save(preset: Omit<Preset, 'id'> & { id?: string }): Preset {
+    const saved: Preset = { ...preset, id: preset.id || generateId() }
+    storage.set(USER_PRESETS_KEY, [...this.listUser().filter(existing => existing.id !== saved.id), saved])
+    return saved
+  }
+
+  delete(id: string): void {
+    storage.set(USER_PRESETS_KEY, this.listUser().filter(preset => preset.id !== id))
+  }
+
+  /**
+   * Add the presets in a preset file to the user's presets. Returns how
+   * many were imported.
+   */
+  async importFile(source: File): Promise<number> {
+    let json: unknown
+    try {
+      json = JSON.parse(await source.text())
+    } catch {
+      throw new Error(`${source.name} is not a preset file.`)
+    }
+
+    const presets = parsePresetFile(json, source.name)
+    presets.forEach(preset => this.save(preset))
+    return presets.length
+  }
+
+  exportFile(): void {
+    const file = { format: PRESET_FILE_FORMAT, version: PRESET_FILE_VERSION, presets: this.listUser() }
+    const url = URL.createObjectURL(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }))
+    downloadFile(url, 'packet-presets.json')
+    setTimeout(() => URL.revokeObjectURL(url), 1000)
+  }
+}
+
+// Export singleton instance
+export const presetStore = new PresetStore()
+
+function parsePresetFile(json: unknown, filename: string): Preset[] {
+  const validation = presetFileSchema.safeParse(json)
+  if (!validation.success) {
+    const fields = Object.entries(getFieldErrors(validation.error))
+      .map(([field, messages]) => `${field}: ${messages.join(', ')}`)
+    throw new Error(`Invalid preset file ${filename} - ${fields.join('; ')}`)
+  }
+  return validation.data.presets
+}
+
+/**
+ * The catalog documents a preset selects, in its order. Files the user
+ * uploaded for this project stay selected after them.
+ */
+export function presetDocuments(preset: Preset, catalog: Document[], current: SelectedDocument[] = []): PresetDocuments {
+  const missing: string[] = []
+  const selectedDocuments: SelectedDocument[] = []
+  for (const id of preset.documentIds) {
+    const document = catalog.find(doc => doc.id === id)
+    if (!document) {
+      missing.push(id)
+      continue
+    }
+    selectedDocuments.push({ id: generateId(), document, selected: true, order: selectedDocuments.length })
+  }
+
+  current
+    .filter(doc => doc.selected && doc.document.source === 'upload')
+    .sort((a, b) => a.order - b.order)
+    .forEach(doc => selectedDocuments.push({ ...doc, order: selectedDocuments.length }))
+  return { selectedDocuments, missing }
+}
+
+/**
+ * The form fields a preset sets. Groups the preset leaves out are left as they are.
+ */
+export function presetFormData(preset: Preset): Partial<ProjectFormData> {
+  const formData: Partial<ProjectFormData> = {}
+  if (preset.status) {
+    formData.status = {
+      forReview: false,
+      forApproval: false,
+      forRecord: false,
+      forInformationOnly: false,
+      ...preset.status,
+    }
+  }
+  if (preset.submittalType) {
+    formData.submittalType = {
+      tds: false,
+      threePartSpecs: false,
+      testReportIccEsr5194: false,
+      testReportIccEsl1645: false,
+      fireAssembly: false,
+      fireAssembly01: false,
+      fireAssembly02: false,
+      fireAssembly03: false,
+      msds: false,
+      leedGuide: false,
+      installationGuide: false,
+      warranty: false,
+      samples: false,
+      other: false,
+      ...preset.submittalType,
+    }
+  }
+  if (preset.product) {
+    formData.product = preset.product
+  }
+  return formData
+}
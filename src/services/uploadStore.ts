@@ -0,0 +1,69 @@
+import type { Document } from '@/types'
+import { generateId } from '@/utils'
+
+export const IMAGE_TYPES = ['image/png', 'image/jpeg']
+
+// Files the user uploaded this session, by document id. Only the Document
+// metadata is persisted with the app state; the files themselves are not.
+export class UploadStore {
+  private files = new Map<string, File[]>()
+
+  /**
+   * Keep a PDF and describe it as a Document that can be selected and
+   * ordered alongside catalog documents
+   */
+  addPdf(file: File): Document {
+    return this.add([file], {
+      name: file.name.replace(/\.[^.]+$/, ''),
+      description: 'Uploaded project file',
+      type: 'Attachment',
+    })
+  }
+
+  /**
+   * Keep a set of images as one Document; the worker lays them out one per
+   * page behind a single divider
+   */
+  addImages(files: File[], captions: boolean): Document {
+    return this.add(files, {
+      name: files.length === 1 ? files[0].name.replace(/\.[^.]+$/, '') : `Photos (${files.length})`,
+      description: files.map(file => file.name).join(', '),
+      type: 'Photos',
+      captions,
+      // One page per image
+      pageCount: files.length,
+    })
+  }
+
+  get(id: string): File[] | undefined {
+    return this.files.get(id)
+  }
+
+  has(id: string): boolean {
+    return this.files.has(id)
+  }
+
+  remove(document: Document): void {
+    this.files.delete(document.id)
+    URL.revokeObjectURL(document.url)
+  }
+
+  private add(files: File[], details: Pick<Document, 'name' | 'description' | 'type' | 'captions' | 'pageCount'>): Document {
+    const id = `upload-${generateId()}`
+    this.files.set(id, files)
+
+    return {
+      id,
+      ...details,
+      filename: files[0].name,
+      url: URL.createObjectURL(files[0]),
+      size: files.reduce((sum, file) => sum + file.size, 0),
+      required: false,
+      products: [],
+      source: 'upload',
+    }
+  }
+}
+
+// Export singleton instance
+export const uploadStore = new UploadStore()
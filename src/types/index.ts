@@ -1,37 +1,9 @@
-// Form data types
-export interface ProjectFormData {
-  projectName: string;
-  submittedTo: string;
-  preparedBy: string;
-  projectNumber?: string;
-  emailAddress: string;
-  phoneNumber: string;
-  date: string;
-  status: {
-    forReview: boolean;
-    forApproval: boolean;
-    forRecord: boolean;
-    forInformationOnly: boolean;
-  };
-  submittalType: {
-    tds: boolean;
-    threePartSpecs: boolean;
-    testReportIccEsr5194: boolean;
-    testReportIccEsl1645: boolean;
-    fireAssembly: boolean;
-    fireAssembly01: boolean;
-    fireAssembly02: boolean;
-    fireAssembly03: boolean;
-    msds: boolean;
-    leedGuide: boolean;
-    installationGuide: boolean;
-    warranty: boolean;
-    samples: boolean;
-    other: boolean;
-    otherText?: string;
-  };
-  product: string;
-}
+import type { ProjectData, DocumentRequestSource, SubmittalNumbering, GenerationOptions } from '@shared/schema';
+
+export type { PacketMode, PageNumbering, PageNumberPosition, RunningHeader, SubmittalNumbering, RevisionEntry, GenerationOptions } from '@shared/schema';
+
+// Form data types, shared with the worker's request schema
+export type ProjectFormData = ProjectData;
 
 // Document types
 export interface Document {
@@ -44,6 +16,17 @@ export interface Document {
   type: string;
   required: boolean;
   products: string[];
+  // 'upload' for project files added by the user; those only live in memory
+  source?: DocumentRequestSource;
+  // Uploaded photos: caption each page with the filename and date
+  captions?: boolean;
+  // Version metadata from the catalog; see shared/catalog.ts
+  version?: string;
+  effectiveDate?: string;
+  expires?: string;
+  supersedes?: string[];
+  // From the catalog when published by the admin, or read from the file for uploads
+  pageCount?: number;
 }
 
 export interface SelectedDocument {
@@ -51,6 +34,8 @@ export interface SelectedDocument {
   document: Document;
   selected: boolean;
   order: number;
+  // Pages to merge, e.g. "1-3, 7"; every page when unset
+  pages?: string;
 }
 
 // App state
@@ -58,8 +43,102 @@ export interface AppState {
   currentStep: number;
   formData: Partial<ProjectFormData>;
   selectedDocuments: SelectedDocument[];
+  generationOptions: GenerationOptions;
   isGenerating: boolean;
   darkMode: boolean;
+  // Saved packet this one is a resubmittal of
+  resubmittalOf?: string;
+  // Revision saved from this packet so far; saving again replaces it
+  savedPacketId?: string;
+}
+
+// What a saved draft restores: everything but session state like dark mode
+export type DraftState = Pick<
+  AppState,
+  'currentStep' | 'formData' | 'selectedDocuments' | 'generationOptions' | 'resubmittalOf' | 'savedPacketId'
+>;
+
+// A named packet in progress. An empty name shows the project name instead.
+export interface Draft {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  state: DraftState;
+}
+
+// Documents, by name, that changed since the previous revision
+export interface RevisionChanges {
+  added: string[];
+  removed: string[];
+  reordered: string[];
+}
+
+// A downloaded packet, kept so it can be revised and resubmitted. All
+// revisions of one submittal share a chainId.
+export interface SavedPacket {
+  id: string;
+  chainId: string;
+  revision: number;
+  savedAt: string;
+  formData: Partial<ProjectFormData>;
+  selectedDocuments: SelectedDocument[];
+  submittalId?: string;
+  // Submittal numbering as generated, with its assigned sequence
+  submittal?: SubmittalNumbering;
+  generationOptions?: GenerationOptions;
+  changes?: RevisionChanges;
+}
+
+// Generation report returned by the worker with each packet
+export interface DocumentReport {
+  id: string;
+  name: string;
+  fetchedBytes: number;
+  pageCount: number;
+  // e.g. "1-3, 7", when only some pages were merged
+  pageSelection?: string;
+  pagesCopied: number;
+  pagesFailed: number;
+  encrypted: boolean;
+  warnings: string[];
+  durationMs: number;
+}
+
+export interface PacketReport {
+  generatedAt: string;
+  totalPages: number;
+  errorPages: number;
+  durationMs: number;
+  submittalId?: string;
+  submittalSequence?: number;
+  warnings: string[];
+  documents: DocumentReport[];
+}
+
+export interface PacketFailure {
+  documentId: string;
+  documentName: string;
+  page?: number;
+  reason: string;
+}
+
+// Packet generation job, as reported by the worker
+export type PacketJobState = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface PacketJobStatus {
+  id: string;
+  state: PacketJobState;
+  processed: number;
+  total: number;
+  currentDocument?: string;
+  error?: string;
+  filename?: string;
+  size?: number;
+  report?: PacketReport;
+  failures?: PacketFailure[];
+  createdAt: string;
+  updatedAt: string;
 }
 
 // Document type for filtering
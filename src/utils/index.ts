@@ -1,5 +1,7 @@
 import { clsx, type ClassValue } from 'clsx'
 import { twMerge } from 'tailwind-merge'
+import { countSelectedPages } from '@shared/pageRanges'
+import type { SelectedDocument } from '@/types'
 
 // Utility function to merge Tailwind classes
 export function cn(...inputs: ClassValue[]) {
@@ -213,3 +215,26 @@ export function getUniqueProducts(documents: any[]): string[] {
 
   return Array.from(new Set(allProducts)).sort()
 }
+
+// Pages a document adds to the packet, once its page count is known
+export function getSelectedPageCount(doc: SelectedDocument): number | undefined {
+  return countSelectedPages(doc.pages, doc.document.pageCount)
+}
+
+// Size a document adds to the packet, scaled down when only some pages are kept
+export function estimateSelectedSize(doc: SelectedDocument): number {
+  const size = doc.document.size || 0
+  const pageCount = doc.document.pageCount
+  const selectedPages = getSelectedPageCount(doc)
+  if (!pageCount || selectedPages === undefined) return size
+  return Math.round(size * selectedPages / pageCount)
+}
+
+// e.g. "Pages 1-3, 7 of 21", "21 pages", or empty when nothing is known yet
+export function describePageSelection(doc: SelectedDocument): string {
+  const pageCount = doc.document.pageCount
+  if (doc.pages) {
+    return `Page${/[-,]/.test(doc.pages) ? 's' : ''} ${doc.pages}${pageCount ? ` of ${pageCount}` : ''}`
+  }
+  return pageCount ? `${pageCount} page${pageCount !== 1 ? 's' : ''}` : ''
+}
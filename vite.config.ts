@@ -13,6 +13,7 @@ export default defineConfig({
       '@/utils': resolve(__dirname, './src/utils'),
       '@/types': resolve(__dirname, './src/types'),
       '@/api': resolve(__dirname, './src/api'),
+      '@shared': resolve(__dirname, './shared'),
     },
   },
   build: {
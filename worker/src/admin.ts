@@ -0,0 +1,175 @@
+import { catalogSchema, ENCRYPTED_DOCUMENT_WARNING, type CatalogCheckResult, type CatalogEntry, type StoredCatalogFile } from '../../shared/catalog'
+import { PDFChecker } from '../../shared/pdfChecker'
+import { getFieldErrors, type FieldErrors } from '../../shared/schema'
+import { CATALOG_PATH, DocumentCatalog } from './catalog'
+import { createDocumentSource, getFetchLimits, isWritable, type DocumentSource, type WritableDocumentSource } from './sources'
+import type { Env } from './types'
+
+// Folder new catalog PDFs are stored in, matching the bundled catalog
+const DOCUMENT_FOLDER = 'PDFS'
+
+class AdminError extends Error {
+  constructor(message: string, public status: number, public fieldErrors: FieldErrors = {}) {
+    super(message)
+    this.name = 'AdminError'
+  }
+}
+
+/**
+ * Catalog admin endpoints, all behind the ADMIN_TOKEN bearer token:
+ *
+ * - GET  /admin/catalog        the published entries, and whether the store can be written
+ * - POST /admin/documents      store an uploaded PDF (multipart `file` field)
+ * - POST /admin/catalog/check  check that each entry's file resolves and loads
+ * - PUT  /admin/catalog        check the entries, then publish them as documents.json
+ */
+export async function handleAdminRequest(request: Request, env: Env, pathname: string): Promise<Response> {
+  try {
+    await authorize(request, env)
+
+    const source = createDocumentSource(env)
+    const route = `${request.method} ${pathname}`
+    switch (route) {
+      case 'GET /admin/catalog': {
+        const catalog = await DocumentCatalog.load(source, getFetchLimits(env))
+        return json({ entries: catalog.list(), source: source.name, writable: isWritable(source) })
+      }
+      case 'POST /admin/documents':
+        return json(await storeDocument(request, writableSource(source)))
+      case 'POST /admin/catalog/check': {
+        const entries = parseEntries(await request.json())
+        return json({ results: await checkEntries(entries, env) })
+      }
+      case 'PUT /admin/catalog': {
+        const target = writableSource(source)
+        const entries = parseEntries(await request.json())
+        const results = await checkEntries(entries, env)
+        const failed = results.filter(result => !result.ok)
+        if (failed.length > 0) {
+          throw new AdminError(`${failed.length} document${failed.length !== 1 ? 's' : ''} could not be loaded`, 422,
+            Object.fromEntries(failed.map(result => [result.id, [result.error || 'Could not be loaded']])))
+        }
+
+        // Sizes and page counts come from the files themselves
+        const published = entries.map((entry, index) => ({
+          ...entry,
+          size: results[index].size ?? entry.size,
+          pageCount: results[index].pageCount,
+        }))
+        await target.put(CATALOG_PATH, `${JSON.stringify(published, null, 2)}\n`, 'application/json')
+        console.log(`Published catalog with ${published.length} documents to ${target.name}`)
+        return json({ entries: published })
+      }
+      default:
+        throw new AdminError(`No admin route for ${route}`, 404)
+    }
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return json({ error: error.message, fieldErrors: error.fieldErrors }, error.status)
+    }
+    if (error instanceof SyntaxError) {
+      return json({ error: 'Request body could not be read', details: error.message }, 400)
+    }
+
+    console.error('Catalog admin error:', error)
+    return json({ error: 'Catalog admin request failed', details: error instanceof Error ? error.message : 'Unknown error' }, 500)
+  }
+}
+
+async function authorize(request: Request, env: Env) {
+  if (!env.ADMIN_TOKEN) {
+    throw new AdminError('Catalog admin is not configured', 503)
+  }
+
+  const encoder = new TextEncoder()
+  const expected = encoder.encode(`Bearer ${env.ADMIN_TOKEN}`)
+  const given = encoder.encode(request.headers.get('Authorization') || '')
+  if (given.byteLength !== expected.byteLength || !crypto.subtle.timingSafeEqual(given, expected)) {
+    throw new AdminError('Invalid admin token', 401)
+  }
+}
+
+function writableSource(source: DocumentSource): WritableDocumentSource {
+  if (!isWritable(source)) {
+    throw new AdminError(`The ${source.name} document store is read-only; use DOCUMENT_SOURCE "r2" or "kv" to publish`, 409)
+  }
+  return source
+}
+
+function parseEntries(body: unknown): CatalogEntry[] {
+  const result = catalogSchema.safeParse((body as { entries?: unknown } | null)?.entries)
+  if (!result.success) {
+    throw new AdminError('Catalog entries are invalid', 400, getFieldErrors(result.error))
+  }
+  return result.data
+}
+
+async function storeDocument(request: Request, source: WritableDocumentSource): Promise<StoredCatalogFile> {
+  let formData: FormData
+  try {
+    formData = await request.formData()
+  } catch {
+    throw new AdminError('Request body must be multipart form data', 400)
+  }
+
+  const file = formData.get('file')
+  if (!file || typeof file === 'string') {
+    throw new AdminError('Request is missing the "file" field', 400)
+  }
+  if (/[\\/]/.test(file.name) || !/\.pdf$/i.test(file.name)) {
+    throw new AdminError(`${file.name} must be a PDF file name without folders`, 400)
+  }
+
+  const bytes = await file.arrayBuffer()
+  const check = await PDFChecker.checkBytes(bytes, file.name)
+  if (!check.isAccessible) {
+    throw new AdminError(`${file.name} could not be loaded: ${check.error}`, 422)
+  }
+
+  await source.put(`${DOCUMENT_FOLDER}/${file.name}`, bytes, 'application/pdf')
+  console.log(`Stored ${file.name} (${bytes.byteLength} bytes) in ${source.name}`)
+
+  return {
+    filename: file.name,
+    url: `/${DOCUMENT_FOLDER}/${encodeURIComponent(file.name)}`,
+    size: bytes.byteLength,
+    pageCount: check.pageCount,
+    title: check.title,
+    encrypted: check.isEncrypted,
+  }
+}
+
+/**
+ * Read every entry's file the way packets do, and check that pdf-lib can
+ * load it. Encrypted files pass with a warning, since packets still build
+ * around them with an error page in their place.
+ */
+async function checkEntries(entries: CatalogEntry[], env: Env): Promise<CatalogCheckResult[]> {
+  const catalog = DocumentCatalog.fromEntries(createDocumentSource(env), entries, getFetchLimits(env))
+
+  const results: CatalogCheckResult[] = []
+  // One at a time, to stay within the worker's memory
+  for (const entry of entries) {
+    try {
+      const check = await PDFChecker.checkBytes(await catalog.fetch(entry.id), entry.filename)
+      results.push({
+        id: entry.id,
+        ok: check.isEncrypted || check.isAccessible,
+        size: check.size,
+        pageCount: check.pageCount,
+        encrypted: check.isEncrypted,
+        ...(check.isEncrypted ? { warning: ENCRYPTED_DOCUMENT_WARNING } : { error: check.error }),
+      })
+    } catch (error) {
+      results.push({ id: entry.id, ok: false, error: error instanceof Error ? error.message : 'Unknown error' })
+    }
+  }
+  return results
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import manifest from '../../public/documents.json'
+import { DocumentCatalog } from './catalog'
+import { getFetchLimits, type DocumentSource } from './sources'
+import type { Env } from './types'
+
+// A store holding only the catalog manifest
+function manifestSource(json: string): DocumentSource {
+  return {
+    name: 'test',
+    async get(path: string) {
+      return path === 'documents.json' ? new TextEncoder().encode(json).buffer as ArrayBuffer : null
+    },
+  }
+}
+
+const limits = getFetchLimits({} as Env)
+
+describe('DocumentCatalog.load', () => {
+  it('loads the bundled catalog', async () => {
+    const catalog = await DocumentCatalog.load(manifestSource(JSON.stringify(manifest)), limits)
+    expect(catalog.list().map(entry => entry.id)).toEqual(manifest.map(entry => entry.id))
+  })
+
+  it('names the manifest and every bad field', async () => {
+    const [first, second] = manifest
+    const json = JSON.stringify([{ ...first, size: -1 }, { ...second, id: first.id }])
+
+    const load = DocumentCatalog.load(manifestSource(json), limits)
+    await expect(load).rejects.toThrow('Invalid document catalog documents.json in test store')
+    await expect(load).rejects.toThrow(/0\.size: .*; 1\.id: Duplicate id: tds-maxterra/)
+  })
+
+  it('names the manifest when it is not JSON', async () => {
+    await expect(DocumentCatalog.load(manifestSource('[{'), limits))
+      .rejects.toThrow('Document catalog documents.json in test store is not valid JSON')
+  })
+})
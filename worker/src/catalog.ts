@@ -0,0 +1,126 @@
+import { catalogSchema, getSupersededBy, getVersionWarnings, type CatalogEntry } from '../../shared/catalog'
+import { COVER_TEMPLATES_PATH, parseCoverTemplates, type CoverTemplate } from '../../shared/coverTemplates'
+import type { PacketDocumentSource } from '../../shared/packet/build'
+import { getFieldErrors, type FieldErrors } from '../../shared/schema'
+import { fetchBytes, toStorePath, type DocumentSource, type FetchLimits } from './sources'
+import type { DocumentRequest } from './types'
+
+// The same manifest the frontend lists documents from
+export const CATALOG_PATH = 'documents.json'
+
+export type { CatalogEntry }
+
+/**
+ * Server-side document catalog. Clients only name documents by id; where
+ * each one is read from comes from the manifest in the document store.
+ */
+export class DocumentCatalog implements PacketDocumentSource {
+  private supersededBy: Map<string, string>
+
+  private constructor(
+    private source: DocumentSource,
+    private entries: Map<string, CatalogEntry>,
+    private limits: FetchLimits
+  ) {
+    this.supersededBy = getSupersededBy(Array.from(entries.values()))
+  }
+
+  static async load(source: DocumentSource, limits: FetchLimits): Promise<DocumentCatalog> {
+    const bytes = await source.get(CATALOG_PATH)
+    if (!bytes) {
+      throw new Error(`Document catalog ${CATALOG_PATH} not found in ${source.name} store`)
+    }
+
+    let json: unknown
+    try {
+      json = JSON.parse(new TextDecoder().decode(bytes))
+    } catch (error) {
+      throw new Error(`Document catalog ${CATALOG_PATH} in ${source.name} store is not valid JSON: ${error instanceof Error ? error.message : error}`)
+    }
+
+    const validation = catalogSchema.safeParse(json)
+    if (!validation.success) {
+      const fields = Object.entries(getFieldErrors(validation.error))
+        .map(([field, messages]) => `${field}: ${messages.join(', ')}`)
+      throw new Error(`Invalid document catalog ${CATALOG_PATH} in ${source.name} store - ${fields.join('; ')}`)
+    }
+    return DocumentCatalog.fromEntries(source, validation.data, limits)
+  }
+
+  // A catalog that hasn't been published yet, such as one being checked by the admin
+  static fromEntries(source: DocumentSource, entries: CatalogEntry[], limits: FetchLimits): DocumentCatalog {
+    return new DocumentCatalog(source, new Map(entries.map(entry => [entry.id, entry])), limits)
+  }
+
+  get name(): string {
+    return this.source.name
+  }
+
+  // Read on demand, since only the cover needs it
+  async getCoverTemplates(): Promise<CoverTemplate[]> {
+    const bytes = await this.source.get(COVER_TEMPLATES_PATH)
+    return bytes ? parseCoverTemplates(JSON.parse(new TextDecoder().decode(bytes)), COVER_TEMPLATES_PATH) : []
+  }
+
+  getTemplate(path: string): Promise<ArrayBuffer | null> {
+    return this.source.get(path)
+  }
+
+  list(): CatalogEntry[] {
+    return Array.from(this.entries.values())
+  }
+
+  get(id: string): CatalogEntry | undefined {
+    return this.entries.get(id)
+  }
+
+  // Superseded and expired documents are still merged, but the packet report says so
+  versionWarnings(id: string): string[] {
+    return getVersionWarnings(id, this.entries, this.supersededBy)
+  }
+
+  // Field errors for any requested document that isn't in the catalog
+  validate(documents: DocumentRequest[]): FieldErrors {
+    const fieldErrors: FieldErrors = {}
+    documents.forEach((doc, index) => {
+      if (doc.source !== 'upload' && !this.entries.has(doc.id)) {
+        fieldErrors[`documents.${index}.id`] = [`Unknown document id: ${doc.id}`]
+      }
+    })
+    return fieldErrors
+  }
+
+  /**
+   * Read a catalog document's bytes. Absolute URLs must be on the origin
+   * allow-list; everything else is a path in the document store.
+   */
+  async fetch(id: string): Promise<ArrayBuffer> {
+    const entry = this.entries.get(id)
+    if (!entry) {
+      throw new Error(`Unknown document id: ${id}`)
+    }
+
+    const bytes = await withTimeout(
+      /^https?:\/\//.test(entry.url)
+        ? fetchBytes(entry.url, this.limits)
+        : this.source.get(toStorePath(entry.url)),
+      this.limits.timeoutMs
+    )
+
+    if (!bytes) {
+      throw new Error(`Document not found: ${entry.url}`)
+    }
+    if (bytes.byteLength > this.limits.maxBytes) {
+      throw new Error(`Document is ${bytes.byteLength} bytes, over the ${this.limits.maxBytes} byte limit`)
+    }
+    return bytes
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs)
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+}
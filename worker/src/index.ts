@@ -1,719 +1,332 @@
-import { PDFDocument, rgb, StandardFonts, PageSizes } from 'pdf-lib'
-
-export interface Env {
-  // Define your environment variables here
-}
-
-interface ProjectData {
-  projectName: string;
-  submittedTo: string;
-  preparedBy: string;
-  date: string;
-  projectNumber?: string;
-  emailAddress: string;
-  phoneNumber: string;
-  product: string;
-  status: {
-    forReview: boolean;
-    forApproval: boolean;
-    forRecord: boolean;
-    forInformationOnly: boolean;
-  };
-  submittalType: {
-    tds: boolean;
-    threePartSpecs: boolean;
-    testReportIccEsr5194: boolean;
-    testReportIccEsl1645: boolean;
-    fireAssembly: boolean;
-    fireAssembly01: boolean;
-    fireAssembly02: boolean;
-    fireAssembly03: boolean;
-    msds: boolean;
-    leedGuide: boolean;
-    installationGuide: boolean;
-    warranty: boolean;
-    samples: boolean;
-    other: boolean;
-    otherText?: string;
-  };
-}
-
-interface DocumentRequest {
-  id: string;
-  name: string;
-  url: string;
-  type: string;
-}
-
-interface GeneratePacketRequest {
-  projectData: ProjectData;
-  documents: DocumentRequest[];
+import { buildPacket, getPacketFilename, PacketFailedError } from '../../shared/packet/build'
+import { describeCoverFields } from '../../shared/packet/cover'
+import { DocumentCatalog } from './catalog'
+import { handleAdminRequest } from './admin'
+import { createDocumentSource, getFetchLimits, toStorePath } from './sources'
+import { assignSubmittalSequence, releaseSubmittalSequence } from './submittals'
+import { readPacketSubmission, toFormData, validateUploads, type PacketUploads } from './uploads'
+import { generatePacketRequestSchema, getFieldErrors, type FieldErrors } from '../../shared/schema'
+import type { Env, GeneratePacketRequest, PacketReport } from './types'
+
+export { PacketJob } from './jobs'
+export { SubmittalCounter } from './submittals'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Expose-Headers': 'Content-Disposition, X-Packet-Report',
 }
 
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-    // Handle CORS
-    const corsHeaders = {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
-    }
-
     if (request.method === 'OPTIONS') {
       return new Response(null, { headers: corsHeaders })
     }
 
-    if (request.method === 'POST' && new URL(request.url).pathname === '/generate-packet') {
+    const url = new URL(request.url)
+    const { pathname } = url
+
+    if (request.method === 'POST' && pathname === '/generate-packet') {
+      return handleGeneratePacket(request, env)
+    }
+
+    // Asynchronous jobs: POST /jobs, then poll GET /jobs/:id and fetch GET /jobs/:id/result
+    if (request.method === 'POST' && pathname === '/jobs') {
+      return handleCreateJob(request, env)
+    }
+
+    const jobMatch = pathname.match(/^\/jobs\/([0-9a-f]{64})(\/result)?$/)
+    if (jobMatch) {
+      const [, jobId, result] = jobMatch
+      let id: DurableObjectId
       try {
-        const { projectData, documents }: GeneratePacketRequest = await request.json()
-
-        console.log(`Generating packet for: ${projectData.projectName}`)
-        console.log(`Processing ${documents.length} documents`)
-
-        // Load the template PDF and fill it
-        const finalPdf = await loadAndFillTemplate(projectData)
-
-        let currentPageNumber = finalPdf.getPageCount() + 1 // Start after template pages
-
-        // Process each document
-        for (const doc of documents) {
-          try {
-            console.log(`Processing: ${doc.name}`)
-
-            // Add divider page
-            await addDividerPage(finalPdf, doc.name, doc.type, currentPageNumber)
-            currentPageNumber++
-
-            // Fetch and merge PDF
-            const pdfBytes = await fetchPDF(doc.url)
-            if (pdfBytes) {
-              const sourcePdf = await PDFDocument.load(pdfBytes)
-              const pageIndices = sourcePdf.getPageIndices()
-
-              // Copy pages one by one for better error handling
-              for (let i = 0; i < pageIndices.length; i++) {
-                try {
-                  const [copiedPage] = await finalPdf.copyPages(sourcePdf, [pageIndices[i]])
-                  finalPdf.addPage(copiedPage)
-                  currentPageNumber++
-                } catch (pageError) {
-                  console.warn(`Failed to copy page ${i + 1} from ${doc.name}:`, pageError)
-                  // Add error page instead
-                  await addErrorPage(finalPdf, doc.name, `Page ${i + 1} could not be processed`)
-                  currentPageNumber++
-                }
-              }
-
-              console.log(`Successfully processed ${pageIndices.length} pages from ${doc.name}`)
-            } else {
-              // Add error page if PDF couldn't be loaded
-              await addErrorPage(finalPdf, doc.name, 'Document could not be loaded')
-              currentPageNumber++
-            }
-          } catch (docError) {
-            console.error(`Error processing ${doc.name}:`, docError)
-            await addErrorPage(finalPdf, doc.name, 'Document processing failed')
-            currentPageNumber++
-          }
-        }
-
-        // Add page numbers to all pages
-        await addPageNumbers(finalPdf)
-
-        // Generate final PDF
-        const pdfBytes = await finalPdf.save()
-
-        console.log(`Packet generated successfully: ${pdfBytes.length} bytes`)
-
-        return new Response(pdfBytes, {
-          headers: {
-            ...corsHeaders,
-            'Content-Type': 'application/pdf',
-            'Content-Disposition': `attachment; filename="${projectData.projectName.replace(/[^a-zA-Z0-9]/g, '_')}_Packet.pdf"`,
-            'Content-Length': pdfBytes.length.toString(),
-          },
-        })
-
-      } catch (error) {
-        console.error('Error generating packet:', error)
-        return new Response(JSON.stringify({
-          error: 'Failed to generate packet',
-          details: error instanceof Error ? error.message : 'Unknown error'
-        }), {
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        })
+        id = env.PACKET_JOBS.idFromString(jobId)
+      } catch {
+        // 64 hex digits, but not an id this namespace issued
+        return withCors(Response.json({ error: 'Job not found' }, { status: 404 }))
+      }
+      const stub = env.PACKET_JOBS.get(id)
+
+      if (request.method === 'GET') {
+        return withCors(await stub.fetch(`https://packet-job${result ? '/result' : '/status'}`))
+      }
+      if (request.method === 'DELETE' && !result) {
+        return withCors(await stub.fetch('https://packet-job/cancel', { method: 'POST' }))
       }
     }
 
+    // The published catalog and its files, so the app sees what the admin published
+    if (request.method === 'GET' && pathname === '/catalog') {
+      return handleGetCatalog(env, url.origin)
+    }
+    if (request.method === 'GET' && pathname.startsWith('/files/')) {
+      return handleGetFile(env, pathname.slice('/files/'.length))
+    }
+
+    // Registered cover templates, and how each one's mapping covers its form fields
+    if (request.method === 'GET' && pathname === '/cover-templates') {
+      return handleGetCoverTemplates(env)
+    }
+    const coverFieldsMatch = pathname.match(/^\/cover-templates\/([a-z0-9][a-z0-9-]*)\/fields$/)
+    if (request.method === 'GET' && coverFieldsMatch) {
+      return handleGetCoverTemplateFields(env, coverFieldsMatch[1])
+    }
+
+    if (pathname.startsWith('/admin/')) {
+      return withCors(await handleAdminRequest(request, env, pathname))
+    }
+
     return new Response('PDF Packet Generator Worker', {
       headers: corsHeaders,
     })
   },
 }
 
-async function fetchPDF(url: string): Promise<ArrayBuffer | null> {
+async function handleGeneratePacket(request: Request, env: Env): Promise<Response> {
+  // Given back to the project's counter if the packet isn't built
+  let numberedRequest: GeneratePacketRequest | undefined
+
   try {
-    // Convert relative URL to properly encoded GitHub raw URL
-    let fullUrl = url
-    if (!url.startsWith('http')) {
-      // Remove leading slash if present
-      const cleanPath = url.startsWith('/') ? url.substring(1) : url
-      // Properly encode the URL components
-      const encodedPath = encodeURIComponent(cleanPath).replace(/%2F/g, '/')
-      fullUrl = `https://raw.githubusercontent.com/karthikeyanasha24/pdf-packet-4/main/public/${encodedPath}`
-    }
+    const { packetRequest, uploads } = await readPacketRequest(request)
+    const { projectData, documents } = packetRequest
+
+    const source = createDocumentSource(env)
+    console.log(`Using document source: ${source.name}`)
 
-    console.log(`Fetching PDF from: ${fullUrl}`)
+    const limits = getFetchLimits(env)
+    const catalog = await DocumentCatalog.load(source, limits)
+    checkDocuments(packetRequest, uploads, catalog, limits.maxBytes)
 
-    const response = await fetch(fullUrl, {
+    console.log(`Generating packet for: ${projectData.projectName}`)
+    console.log(`Processing ${documents.length} documents (${uploads.size} uploaded)`)
+
+    numberedRequest = await assignSubmittalSequence(env, packetRequest)
+    const { pdfBytes, report } = await buildPacket(catalog, numberedRequest, { uploads })
+
+    console.log(`Packet generated successfully: ${pdfBytes.length} bytes, ${report.errorPages} error pages`)
+
+    return new Response(pdfBytes, {
       headers: {
-        'User-Agent': 'PDF-Packet-Generator/1.0',
-      }
+        ...corsHeaders,
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${getPacketFilename(projectData)}"`,
+        'Content-Length': pdfBytes.length.toString(),
+        'X-Packet-Report': encodeReportHeader(report),
+      },
     })
 
-    if (!response.ok) {
-      console.error(`Failed to fetch PDF: ${response.status} ${response.statusText}`)
-      console.error(`URL attempted: ${fullUrl}`)
-      return null
+  } catch (error) {
+    if (numberedRequest) {
+      await releaseSubmittalSequence(env, numberedRequest)
     }
 
-    const arrayBuffer = await response.arrayBuffer()
-    console.log(`PDF fetched successfully: ${arrayBuffer.byteLength} bytes`)
-    return arrayBuffer
-  } catch (error) {
-    console.error(`Error fetching PDF from ${url}:`, error)
-    return null
+    if (error instanceof InvalidRequestError) {
+      return invalidRequestResponse(error)
+    }
+    if (error instanceof PacketFailedError) {
+      console.warn(`Strict packet rejected: ${error.message}`)
+      return failedPacketResponse(error)
+    }
+
+    console.error('Error generating packet:', error)
+    return errorResponse('Failed to generate packet', error)
   }
 }
 
-async function loadAndFillTemplate(projectData: ProjectData): Promise<PDFDocument> {
-  try {
-    // Fetch the template PDF from GitHub
-    const templateUrl = 'https://raw.githubusercontent.com/karthikeyanasha24/pdf-packet-4/main/PDF-TEMPLATE/Submittal%20Form_Floor%20Panels.pdf'
-    console.log('Fetching template PDF from:', templateUrl)
+async function handleCreateJob(request: Request, env: Env): Promise<Response> {
+  // Given back to the project's counter if the job doesn't start; once it
+  // has, the job gives it back when its packet isn't built
+  let numberedRequest: GeneratePacketRequest | undefined
 
-    const response = await fetch(templateUrl, {
-      headers: {
-        'User-Agent': 'PDF-Packet-Generator/1.0',
-      }
+  try {
+    const { packetRequest, uploads } = await readPacketRequest(request)
+    const limits = getFetchLimits(env)
+    const catalog = await DocumentCatalog.load(createDocumentSource(env), limits)
+    checkDocuments(packetRequest, uploads, catalog, limits.maxBytes)
+
+    // The job gets the validated and numbered request, with any uploads, as multipart
+    numberedRequest = await assignSubmittalSequence(env, packetRequest)
+    const stub = env.PACKET_JOBS.get(env.PACKET_JOBS.newUniqueId())
+    const response = await stub.fetch('https://packet-job/start', {
+      method: 'POST',
+      body: toFormData(numberedRequest, uploads),
     })
-
     if (!response.ok) {
-      console.error(`Failed to fetch template: ${response.status} ${response.statusText}`)
-      // Fallback to creating a custom cover page
-      const pdf = await PDFDocument.create()
-      await addCoverPage(pdf, projectData)
-      return pdf
+      await releaseSubmittalSequence(env, numberedRequest)
     }
 
-    const templateBytes = await response.arrayBuffer()
-    console.log(`Template fetched successfully: ${templateBytes.byteLength} bytes`)
+    console.log(`Queued packet job for: ${packetRequest.projectData.projectName}`)
+    return withCors(response)
+
+  } catch (error) {
+    if (numberedRequest) {
+      await releaseSubmittalSequence(env, numberedRequest)
+    }
 
-    // Load the template PDF
-    const pdfDoc = await PDFDocument.load(templateBytes)
+    if (error instanceof InvalidRequestError) {
+      return invalidRequestResponse(error)
+    }
 
-    // Get the form from the template
-    const form = pdfDoc.getForm()
-    const fields = form.getFields()
+    console.error('Error creating packet job:', error)
+    return errorResponse('Failed to create packet job', error)
+  }
+}
 
-    console.log(`Template has ${fields.length} form fields`)
-    fields.forEach(field => {
-      console.log(`Field: ${field.getName()} - Type: ${field.constructor.name}`)
+async function handleGetCatalog(env: Env, origin: string): Promise<Response> {
+  try {
+    const catalog = await DocumentCatalog.load(createDocumentSource(env), getFetchLimits(env))
+    // Store paths become links to /files; absolute URLs are left as they are
+    const entries = catalog.list().map(entry => /^https?:\/\//.test(entry.url)
+      ? entry
+      : { ...entry, url: `${origin}/files/${toStorePath(entry.url).split('/').map(encodeURIComponent).join('/')}` })
+
+    return new Response(JSON.stringify(entries), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-cache' },
     })
+  } catch (error) {
+    console.error('Error loading catalog:', error)
+    return errorResponse('Failed to load catalog', error)
+  }
+}
 
-    // Fill in the form fields
-    try {
-      // Try to fill fields by their names (common field names in PDF forms)
-      const fieldMappings = [
-        { names: ['Submitted To', 'submittedTo', 'submitted_to'], value: projectData.submittedTo },
-        { names: ['Project Name', 'projectName', 'project_name'], value: projectData.projectName },
-        { names: ['Project Number', 'projectNumber', 'project_number'], value: projectData.projectNumber || '' },
-        { names: ['Prepared By', 'preparedBy', 'prepared_by'], value: projectData.preparedBy },
-        { names: ['Phone/Email', 'phoneEmail', 'phone_email', 'PhoneEmail'], value: `${projectData.phoneNumber} / ${projectData.emailAddress}` },
-        { names: ['Date', 'date'], value: projectData.date },
-      ]
-
-      fieldMappings.forEach(mapping => {
-        for (const fieldName of mapping.names) {
-          try {
-            const field = form.getTextField(fieldName)
-            if (field) {
-              field.setText(mapping.value)
-              console.log(`Set field ${fieldName} to: ${mapping.value}`)
-              break
-            }
-          } catch (e) {
-            // Field doesn't exist or isn't a text field, try next name
-          }
-        }
-      })
-
-      // Handle checkboxes for Status/Action
-      const statusCheckboxes = [
-        { names: ['For Review', 'forReview', 'for_review'], value: projectData.status.forReview },
-        { names: ['For Approval', 'forApproval', 'for_approval'], value: projectData.status.forApproval },
-        { names: ['For Record', 'forRecord', 'for_record'], value: projectData.status.forRecord },
-        { names: ['For Information Only', 'forInformationOnly', 'for_information_only'], value: projectData.status.forInformationOnly },
-      ]
-
-      statusCheckboxes.forEach(mapping => {
-        for (const fieldName of mapping.names) {
-          try {
-            const checkbox = form.getCheckBox(fieldName)
-            if (checkbox) {
-              if (mapping.value) {
-                checkbox.check()
-              } else {
-                checkbox.uncheck()
-              }
-              console.log(`Set checkbox ${fieldName} to: ${mapping.value}`)
-              break
-            }
-          } catch (e) {
-            // Field doesn't exist or isn't a checkbox, try next name
-          }
-        }
-      })
-
-      // Handle checkboxes for Submittal Type
-      const submittalCheckboxes = [
-        { names: ['TDS', 'tds'], value: projectData.submittalType.tds },
-        { names: ['3-Part Specs', '3PartSpecs', 'threePartSpecs'], value: projectData.submittalType.threePartSpecs },
-        { names: ['Test Report ICC-ESR 5194', 'testReportIccEsr5194'], value: projectData.submittalType.testReportIccEsr5194 },
-        { names: ['Test Report ICC-ESL 1645', 'testReportIccEsl1645'], value: projectData.submittalType.testReportIccEsl1645 },
-        { names: ['Fire Assembly', 'fireAssembly'], value: projectData.submittalType.fireAssembly },
-        { names: ['Fire Assembly 01', 'fireAssembly01'], value: projectData.submittalType.fireAssembly01 },
-        { names: ['Fire Assembly 02', 'fireAssembly02'], value: projectData.submittalType.fireAssembly02 },
-        { names: ['Fire Assembly 03', 'fireAssembly03'], value: projectData.submittalType.fireAssembly03 },
-        { names: ['MSDS', 'msds', 'Material Safety Data Sheet'], value: projectData.submittalType.msds },
-        { names: ['LEED Guide', 'leedGuide'], value: projectData.submittalType.leedGuide },
-        { names: ['Installation Guide', 'installationGuide'], value: projectData.submittalType.installationGuide },
-        { names: ['Warranty', 'warranty'], value: projectData.submittalType.warranty },
-        { names: ['Samples', 'samples'], value: projectData.submittalType.samples },
-        { names: ['Other', 'other'], value: projectData.submittalType.other },
-      ]
-
-      submittalCheckboxes.forEach(mapping => {
-        for (const fieldName of mapping.names) {
-          try {
-            const checkbox = form.getCheckBox(fieldName)
-            if (checkbox) {
-              if (mapping.value) {
-                checkbox.check()
-              } else {
-                checkbox.uncheck()
-              }
-              console.log(`Set checkbox ${fieldName} to: ${mapping.value}`)
-              break
-            }
-          } catch (e) {
-            // Field doesn't exist or isn't a checkbox, try next name
-          }
-        }
-      })
-
-      // Flatten the form to make it non-editable
-      form.flatten()
-
-    } catch (fillError) {
-      console.warn('Error filling form fields:', fillError)
-      console.log('Template will be used as-is without filling fields')
+// Only files the catalog lists are served, not everything in the store
+async function handleGetFile(env: Env, encodedPath: string): Promise<Response> {
+  try {
+    const path = toStorePath(encodedPath)
+    const source = createDocumentSource(env)
+    const catalog = await DocumentCatalog.load(source, getFetchLimits(env))
+    if (!catalog.list().some(entry => toStorePath(entry.url) === path)) {
+      return new Response('Not found', { status: 404, headers: corsHeaders })
     }
 
-    return pdfDoc
+    const bytes = await source.get(path)
+    if (!bytes) {
+      return new Response('Not found', { status: 404, headers: corsHeaders })
+    }
+    return new Response(bytes, {
+      headers: { ...corsHeaders, 'Content-Type': 'application/pdf' },
+    })
+  } catch (error) {
+    console.error('Error reading catalog file:', error)
+    return errorResponse('Failed to read file', error)
+  }
+}
 
+async function handleGetCoverTemplates(env: Env): Promise<Response> {
+  try {
+    const catalog = await DocumentCatalog.load(createDocumentSource(env), getFetchLimits(env))
+    return new Response(JSON.stringify(await catalog.getCoverTemplates()), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-cache' },
+    })
   } catch (error) {
-    console.error('Error loading template PDF:', error)
-    // Fallback: create a custom cover page
-    console.log('Falling back to custom cover page')
-    const pdf = await PDFDocument.create()
-    await addCoverPage(pdf, projectData)
-    return pdf
+    console.error('Error loading cover templates:', error)
+    return errorResponse('Failed to load cover templates', error)
   }
 }
 
-async function addCoverPage(pdf: PDFDocument, projectData: ProjectData) {
-  const page = pdf.addPage(PageSizes.Letter);
-  const { width, height } = page.getSize();
-  const font = await pdf.embedFont(StandardFonts.Helvetica);
-  const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold);
-
-  // Colors
-  const nexgenCyan = rgb(0, 0.6, 0.8); // NEXGEN cyan/teal color
-  const darkGray = rgb(0.2, 0.2, 0.2);
-  const mediumGray = rgb(0.4, 0.4, 0.4);
-  const lightBlue = rgb(0.84, 0.9, 0.96); // Light blue for form backgrounds
-  const borderGray = rgb(0.7, 0.7, 0.7);
-
-  // NEXGEN Header (top left)
-  page.drawText('NEXGEN', {
-    x: 50,
-    y: height - 50,
-    size: 24,
-    font: boldFont,
-    color: nexgenCyan,
-  });
-
-  // Section identifier (top right)
-  const sectionText = 'SECTION 06 16 26';
-  const sectionWidth = font.widthOfTextAtSize(sectionText, 10);
-  page.drawRectangle({
-    x: width - 150,
-    y: height - 60,
-    width: 100,
-    height: 20,
-    color: nexgenCyan,
-  });
-  page.drawText(sectionText, {
-    x: width - 145,
-    y: height - 54,
-    size: 10,
-    font: boldFont,
-    color: rgb(1, 1, 1),
-  });
-
-  // Title
-  const titleY = height - 100;
-  page.drawText('MAXTERRA® MgO Non-Combustible Structural', {
-    x: 50,
-    y: titleY,
-    size: 12,
-    font: font,
-    color: darkGray,
-  });
-  page.drawText('Floor Panels Submittal Form', {
-    x: 50,
-    y: titleY - 15,
-    size: 12,
-    font: font,
-    color: darkGray,
-  });
-
-  // Form fields start position
-  let currentY = titleY - 50;
-  const labelX = 50;
-  const valueX = 200;
-  const fieldHeight = 25;
-  const fieldWidth = width - valueX - 50;
-
-  // Helper function to draw form field
-  const drawFormField = (label: string, value: string, y: number) => {
-    // Label
-    page.drawText(label, {
-      x: labelX,
-      y: y + 8,
-      size: 10,
-      font: font,
-      color: darkGray,
-    });
-
-    // Background box
-    page.drawRectangle({
-      x: valueX,
-      y: y,
-      width: fieldWidth,
-      height: fieldHeight,
-      color: lightBlue,
-      borderColor: borderGray,
-      borderWidth: 0.5,
-    });
-
-    // Value text
-    page.drawText(value || '', {
-      x: valueX + 5,
-      y: y + 8,
-      size: 10,
-      font: font,
-      color: rgb(0, 0, 0),
-    });
-
-    // Bottom border line
-    page.drawLine({
-      start: { x: labelX, y: y },
-      end: { x: valueX + fieldWidth, y: y },
-      color: borderGray,
-      thickness: 0.5,
-    });
-  };
-
-  // Draw form fields
-  drawFormField('Submitted To', projectData.submittedTo, currentY);
-  currentY -= fieldHeight;
-
-  drawFormField('Project Name', projectData.projectName, currentY);
-  currentY -= fieldHeight;
-
-  drawFormField('Project Number', projectData.projectNumber || '', currentY);
-  currentY -= fieldHeight;
-
-  drawFormField('Prepared By', projectData.preparedBy, currentY);
-  currentY -= fieldHeight;
-
-  drawFormField('Phone/Email', `${projectData.phoneNumber} / ${projectData.emailAddress}`, currentY);
-  currentY -= fieldHeight;
-
-  drawFormField('Date', projectData.date, currentY);
-  currentY -= fieldHeight + 10;
-
-  // Status/Action section with checkboxes
-  page.drawText('Status / Action', {
-    x: labelX,
-    y: currentY,
-    size: 10,
-    font: boldFont,
-    color: darkGray,
-  });
-  currentY -= 20;
-
-  const checkboxSize = 12;
-  const checkboxSpacing = 130;
-  let checkboxX = valueX;
-
-  const drawCheckbox = (label: string, checked: boolean, x: number, y: number) => {
-    // Checkbox border
-    page.drawRectangle({
-      x: x,
-      y: y,
-      width: checkboxSize,
-      height: checkboxSize,
-      borderColor: borderGray,
-      borderWidth: 1,
-    });
-
-    // Checkbox background if checked
-    if (checked) {
-      page.drawRectangle({
-        x: x + 2,
-        y: y + 2,
-        width: checkboxSize - 4,
-        height: checkboxSize - 4,
-        color: nexgenCyan,
-      });
-
-      // X mark
-      page.drawText('X', {
-        x: x + 3,
-        y: y + 2,
-        size: 9,
-        font: boldFont,
-        color: rgb(1, 1, 1),
-      });
+// Diagnostic for writing a template's field mapping: every form field in its
+// PDF, which ones no mapping fills, and mappings that name missing fields
+async function handleGetCoverTemplateFields(env: Env, id: string): Promise<Response> {
+  try {
+    const catalog = await DocumentCatalog.load(createDocumentSource(env), getFetchLimits(env))
+    const template = (await catalog.getCoverTemplates()).find(template => template.id === id)
+    if (!template) {
+      return errorResponse('Unknown cover template', new Error(`No cover template with id ${id}`), 404)
     }
 
-    // Label
-    page.drawText(label, {
-      x: x + checkboxSize + 5,
-      y: y + 2,
-      size: 9,
-      font: font,
-      color: darkGray,
-    });
-  };
-
-  drawCheckbox('For Review', projectData.status.forReview, checkboxX, currentY);
-  drawCheckbox('For Approval', projectData.status.forApproval, checkboxX + checkboxSpacing, currentY);
-  currentY -= 18;
-  drawCheckbox('For Record', projectData.status.forRecord, checkboxX, currentY);
-  drawCheckbox('For Information Only', projectData.status.forInformationOnly, checkboxX + checkboxSpacing, currentY);
-
-  currentY -= 30;
-
-  // Submittal Type section
-  page.drawText('Submittal Type (check all that apply)', {
-    x: labelX,
-    y: currentY,
-    size: 10,
-    font: boldFont,
-    color: darkGray,
-  });
-  currentY -= 20;
-
-  const submittalTypes = [
-    { label: 'TDS', checked: projectData.submittalType.tds },
-    { label: '3-Part Specs', checked: projectData.submittalType.threePartSpecs },
-    { label: 'Test Report ICC-ESR 5194', checked: projectData.submittalType.testReportIccEsr5194 },
-    { label: 'Test Report ICC-ESL 1645', checked: projectData.submittalType.testReportIccEsl1645 },
-    { label: 'Fire Assembly', checked: projectData.submittalType.fireAssembly },
-    { label: '  Fire Assembly 01', checked: projectData.submittalType.fireAssembly01 },
-    { label: '  Fire Assembly 02', checked: projectData.submittalType.fireAssembly02 },
-    { label: '  Fire Assembly 03', checked: projectData.submittalType.fireAssembly03 },
-    { label: 'Material Safety Data Sheet (MSDS)', checked: projectData.submittalType.msds },
-    { label: 'LEED Guide', checked: projectData.submittalType.leedGuide },
-    { label: 'Installation Guide', checked: projectData.submittalType.installationGuide },
-    { label: 'Warranty', checked: projectData.submittalType.warranty },
-    { label: 'Samples', checked: projectData.submittalType.samples },
-    { label: `Other: ${projectData.submittalType.otherText || ''}`, checked: projectData.submittalType.other },
-  ];
-
-  submittalTypes.forEach((type) => {
-    drawCheckbox(type.label, type.checked, valueX, currentY);
-    currentY -= 16;
-  });
-
-  currentY -= 10;
-
-  // Product section
-  page.drawText('Product:', {
-    x: labelX,
-    y: currentY,
-    size: 10,
-    font: boldFont,
-    color: darkGray,
-  });
-  page.drawText(projectData.product, {
-    x: valueX,
-    y: currentY,
-    size: 10,
-    font: font,
-    color: darkGray,
-  });
-
-  // Footer section
-  const footerY = 120;
-  page.drawText('NEXGEN® Building Products, LLC', {
-    x: labelX,
-    y: footerY,
-    size: 9,
-    font: boldFont,
-    color: darkGray,
-  });
-  page.drawText('1504 Manhattan Ave West, #300 Brandon, FL 34205', {
-    x: labelX,
-    y: footerY - 12,
-    size: 8,
-    font: font,
-    color: mediumGray,
-  });
-  page.drawText('(727) 634-5534', {
-    x: labelX,
-    y: footerY - 24,
-    size: 8,
-    font: font,
-    color: mediumGray,
-  });
-  page.drawText('Technical Support: support@nexgenbp.com', {
-    x: labelX,
-    y: footerY - 36,
-    size: 8,
-    font: font,
-    color: mediumGray,
-  });
-
-  // Version footer
-  const versionText = 'Version 1.0 October 2025 © 2025 NEXGEN Building Products';
-  const versionWidth = font.widthOfTextAtSize(versionText, 7);
-  page.drawText(versionText, {
-    x: width - versionWidth - 50,
-    y: 50,
-    size: 7,
-    font: font,
-    color: mediumGray,
-  });
-}
+    const bytes = await catalog.getTemplate(template.path)
+    if (!bytes) {
+      return errorResponse('Cover template PDF not found', new Error(`${template.path} is not in the document store`), 404)
+    }
 
-async function addDividerPage(pdf: PDFDocument, documentName: string, documentType: string, pageNumber: number) {
-  const page = pdf.addPage(PageSizes.Letter)
-  const { width, height } = page.getSize()
-  const font = await pdf.embedFont(StandardFonts.Helvetica)
-  const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold)
-
-  const nexgenCyan = rgb(0, 0.6, 0.8);
-
-  // Section header
-  page.drawText('SECTION DIVIDER', {
-    x: 50,
-    y: height - 100,
-    size: 16,
-    font: boldFont,
-    color: nexgenCyan,
-  })
+    const report = await describeCoverFields(bytes, template)
+    return new Response(JSON.stringify(report), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-cache' },
+    })
+  } catch (error) {
+    console.error('Error reading cover template fields:', error)
+    return errorResponse('Failed to read cover template fields', error)
+  }
+}
 
-  // Document name
-  page.drawText(documentName, {
-    x: 50,
-    y: height - 150,
-    size: 20,
-    font: boldFont,
-    color: rgb(0, 0, 0),
-  })
+class InvalidRequestError extends Error {
+  constructor(message: string, public fieldErrors: FieldErrors = {}) {
+    super(message)
+    this.name = 'InvalidRequestError'
+  }
+}
 
-  // Document type
-  page.drawText(`Type: ${documentType}`, {
-    x: 50,
-    y: height - 180,
-    size: 12,
-    font: font,
-    color: rgb(0.4, 0.4, 0.4),
-  })
+// Parse a JSON or multipart packet request and validate it against the shared schema
+async function readPacketRequest(request: Request): Promise<{ packetRequest: GeneratePacketRequest; uploads: PacketUploads }> {
+  let submission
+  try {
+    submission = await readPacketSubmission(request)
+  } catch (error) {
+    throw new InvalidRequestError(`Request body could not be read: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
 
-  // Page number
-  page.drawText(`Page ${pageNumber}`, {
-    x: 50,
-    y: height - 200,
-    size: 10,
-    font: font,
-    color: rgb(0.6, 0.6, 0.6),
-  })
+  const result = generatePacketRequestSchema.safeParse(submission.body)
+  if (!result.success) {
+    throw new InvalidRequestError('Request body does not match the packet request schema', getFieldErrors(result.error))
+  }
+  return { packetRequest: result.data, uploads: submission.uploads }
 }
 
-async function addErrorPage(pdf: PDFDocument, documentName: string, errorMessage: string) {
-  const page = pdf.addPage(PageSizes.Letter)
-  const { width, height } = page.getSize()
-  const font = await pdf.embedFont(StandardFonts.Helvetica)
-  const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold)
-
-  // Error header
-  page.drawText('DOCUMENT ERROR', {
-    x: 50,
-    y: height - 100,
-    size: 16,
-    font: boldFont,
-    color: rgb(0.8, 0.2, 0.2),
-  })
+// Clients can only ask for documents the server-side catalog knows about, or ones they uploaded
+function checkDocuments(packetRequest: GeneratePacketRequest, uploads: PacketUploads, catalog: DocumentCatalog, maxBytes: number) {
+  const fieldErrors = {
+    ...catalog.validate(packetRequest.documents),
+    ...validateUploads(packetRequest, uploads, maxBytes),
+  }
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new InvalidRequestError('Request names documents that are not in the catalog or were not uploaded', fieldErrors)
+  }
+}
 
-  // Document name
-  page.drawText(documentName, {
-    x: 50,
-    y: height - 150,
-    size: 14,
-    font: boldFont,
-    color: rgb(0, 0, 0),
+function invalidRequestResponse(error: InvalidRequestError): Response {
+  return new Response(JSON.stringify({
+    error: 'Invalid packet request',
+    details: error.message,
+    fieldErrors: error.fieldErrors,
+  }), {
+    status: 400,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
   })
+}
 
-  // Error message
-  page.drawText(`Error: ${errorMessage}`, {
-    x: 50,
-    y: height - 180,
-    size: 12,
-    font: font,
-    color: rgb(0.6, 0.2, 0.2),
+function errorResponse(message: string, error: unknown, status = 500): Response {
+  return new Response(JSON.stringify({
+    error: message,
+    details: error instanceof Error ? error.message : 'Unknown error'
+  }), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
   })
+}
 
-  // Instructions
-  page.drawText('Please contact support if this error persists.', {
-    x: 50,
-    y: height - 220,
-    size: 10,
-    font: font,
-    color: rgb(0.4, 0.4, 0.4),
+// Strict packets that could not be merged cleanly: list every failure so the client can show them
+function failedPacketResponse(error: PacketFailedError): Response {
+  return new Response(JSON.stringify({
+    error: 'Packet could not be generated in strict mode',
+    details: error.message,
+    failures: error.failures,
+  }), {
+    status: 422,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
   })
 }
 
-async function addPageNumbers(pdf: PDFDocument) {
-  const pages = pdf.getPages()
-  const font = await pdf.embedFont(StandardFonts.Helvetica)
-
-  pages.forEach((page, index) => {
-    const { width } = page.getSize()
-    const pageNumber = index + 1
+// Base64 of the UTF-8 JSON, since header values must be ASCII
+function encodeReportHeader(report: PacketReport): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(report))
+  let binary = ''
+  bytes.forEach(byte => { binary += String.fromCharCode(byte) })
+  return btoa(binary)
+}
 
-    page.drawText(`${pageNumber}`, {
-      x: width - 50,
-      y: 30,
-      size: 10,
-      font: font,
-      color: rgb(0.4, 0.4, 0.4),
-    })
-  })
+function withCors(response: Response): Response {
+  const corsResponse = new Response(response.body, response)
+  Object.entries(corsHeaders).forEach(([name, value]) => corsResponse.headers.set(name, value))
+  return corsResponse
 }
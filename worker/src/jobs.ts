@@ -0,0 +1,186 @@
+import { buildPacket, getPacketFilename, PacketCancelledError, PacketFailedError } from '../../shared/packet/build'
+import { DocumentCatalog } from './catalog'
+import { createDocumentSource, getFetchLimits } from './sources'
+import { releaseSubmittalSequence } from './submittals'
+import { readPacketSubmission, type PacketUploads } from './uploads'
+import type { Env, GeneratePacketRequest, PacketJobStatus } from './types'
+
+// Durable Object storage caps each value, so the finished PDF is kept in chunks
+const RESULT_CHUNK_SIZE = 120 * 1024
+const STORAGE_BATCH_SIZE = 128
+
+// Jobs and their results are discarded after an hour
+const JOB_RETENTION_MS = 60 * 60 * 1000
+
+/**
+ * One packet generation job. The worker creates an instance per job id and
+ * forwards start/status/result/cancel requests to it.
+ */
+export class PacketJob implements DurableObject {
+  private status: PacketJobStatus | null = null
+  private controller: AbortController | null = null
+
+  constructor(private state: DurableObjectState, private env: Env) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { pathname } = new URL(request.url)
+
+    if (request.method === 'POST' && pathname === '/start') {
+      // Already validated by the worker; uploads are only held in memory for the run
+      const { body, uploads } = await readPacketSubmission(request)
+      const packetRequest = body as GeneratePacketRequest
+      const now = new Date().toISOString()
+
+      const status: PacketJobStatus = {
+        id: this.state.id.toString(),
+        state: 'queued',
+        processed: 0,
+        total: packetRequest.documents.length,
+        createdAt: now,
+        updatedAt: now,
+      }
+      await this.saveStatus(status)
+      await this.state.storage.setAlarm(Date.now() + JOB_RETENTION_MS)
+
+      this.controller = new AbortController()
+      this.state.waitUntil(this.run(packetRequest, uploads, this.controller.signal))
+
+      return Response.json(status, { status: 202 })
+    }
+
+    const status = await this.getStatus()
+    if (!status) {
+      return Response.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    if (request.method === 'GET' && pathname === '/status') {
+      return Response.json(status)
+    }
+
+    if (request.method === 'GET' && pathname === '/result') {
+      if (status.state !== 'completed') {
+        return Response.json({ error: `Job is ${status.state}` }, { status: 409 })
+      }
+
+      const pdfBytes = await this.loadResult(status.size || 0)
+      return new Response(pdfBytes, {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${status.filename}"`,
+          'Content-Length': pdfBytes.length.toString(),
+        },
+      })
+    }
+
+    if (request.method === 'POST' && pathname === '/cancel') {
+      if (status.state === 'queued' || status.state === 'running') {
+        this.controller?.abort()
+        return Response.json(await this.updateStatus({ state: 'cancelled', currentDocument: undefined }))
+      }
+      return Response.json(status)
+    }
+
+    return Response.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  async alarm() {
+    await this.state.storage.deleteAll()
+    this.status = null
+  }
+
+  private async run(packetRequest: GeneratePacketRequest, uploads: PacketUploads, signal: AbortSignal) {
+    try {
+      await this.updateStatus({ state: 'running' })
+
+      const source = createDocumentSource(this.env)
+      const catalog = await DocumentCatalog.load(source, getFetchLimits(this.env))
+      const { pdfBytes, report } = await buildPacket(catalog, packetRequest, {
+        uploads,
+        signal,
+        onProgress: async ({ processed, total, currentDocument }) => {
+          await this.updateStatus({ processed, total, currentDocument })
+        },
+      })
+
+      if (signal.aborted) {
+        throw new PacketCancelledError()
+      }
+
+      await this.saveResult(pdfBytes)
+      await this.updateStatus({
+        state: 'completed',
+        currentDocument: undefined,
+        filename: getPacketFilename(packetRequest.projectData),
+        size: pdfBytes.length,
+        report,
+      })
+
+      console.log(`Job ${this.state.id} completed: ${pdfBytes.length} bytes`)
+    } catch (error) {
+      // A packet that wasn't built doesn't keep its submittal sequence
+      await releaseSubmittalSequence(this.env, packetRequest)
+
+      if (error instanceof PacketCancelledError) {
+        console.log(`Job ${this.state.id} cancelled`)
+        return
+      }
+
+      console.error(`Job ${this.state.id} failed:`, error)
+      await this.updateStatus({
+        state: 'failed',
+        currentDocument: undefined,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        failures: error instanceof PacketFailedError ? error.failures : undefined,
+      })
+    } finally {
+      this.controller = null
+    }
+  }
+
+  private async getStatus(): Promise<PacketJobStatus | null> {
+    if (!this.status) {
+      this.status = (await this.state.storage.get<PacketJobStatus>('status')) || null
+    }
+    return this.status
+  }
+
+  private async saveStatus(status: PacketJobStatus) {
+    this.status = status
+    await this.state.storage.put('status', status)
+  }
+
+  private async updateStatus(update: Partial<PacketJobStatus>): Promise<PacketJobStatus> {
+    const current = await this.getStatus()
+    const status = { ...current!, ...update, updatedAt: new Date().toISOString() }
+    await this.saveStatus(status)
+    return status
+  }
+
+  private async saveResult(pdfBytes: Uint8Array) {
+    const entries: Record<string, Uint8Array> = {}
+    for (let offset = 0, index = 0; offset < pdfBytes.length; offset += RESULT_CHUNK_SIZE, index++) {
+      entries[`result:${index}`] = pdfBytes.slice(offset, offset + RESULT_CHUNK_SIZE)
+    }
+
+    const keys = Object.keys(entries)
+    for (let i = 0; i < keys.length; i += STORAGE_BATCH_SIZE) {
+      const batch = Object.fromEntries(keys.slice(i, i + STORAGE_BATCH_SIZE).map(key => [key, entries[key]]))
+      await this.state.storage.put(batch)
+    }
+  }
+
+  private async loadResult(size: number): Promise<Uint8Array> {
+    const chunkCount = Math.ceil(size / RESULT_CHUNK_SIZE)
+    const keys = Array.from({ length: chunkCount }, (_, index) => `result:${index}`)
+    const pdfBytes = new Uint8Array(size)
+
+    for (let i = 0; i < keys.length; i += STORAGE_BATCH_SIZE) {
+      const chunks = await this.state.storage.get<Uint8Array>(keys.slice(i, i + STORAGE_BATCH_SIZE))
+      keys.slice(i, i + STORAGE_BATCH_SIZE).forEach((key, offset) => {
+        pdfBytes.set(chunks.get(key)!, (i + offset) * RESULT_CHUNK_SIZE)
+      })
+    }
+
+    return pdfBytes
+  }
+}
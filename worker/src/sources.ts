@@ -0,0 +1,227 @@
+import type { Env } from './types'
+
+/**
+ * Where catalog PDFs and cover templates are read from. Paths are store
+ * keys relative to the document root, e.g. `PDFS/LEED Credit Guide 7-16-25 (1).pdf`.
+ */
+export interface DocumentSource {
+  readonly name: string;
+  get(path: string): Promise<ArrayBuffer | null>;
+}
+
+// Stores the catalog admin can publish to
+export interface WritableDocumentSource extends DocumentSource {
+  put(path: string, body: ArrayBuffer | string, contentType: string): Promise<void>;
+}
+
+export function isWritable(source: DocumentSource): source is WritableDocumentSource {
+  return 'put' in source
+}
+
+export type DocumentSourceKind = 'assets' | 'r2' | 'kv' | 'http'
+
+const DEFAULT_MAX_DOCUMENT_BYTES = 25 * 1024 * 1024
+const DEFAULT_FETCH_TIMEOUT_MS = 15000
+
+// Per-document limits on what the worker will download
+export interface FetchLimits {
+  maxBytes: number;
+  timeoutMs: number;
+  // Origins absolute URLs may point at, e.g. `https://docs.example.com`
+  allowedOrigins: string[];
+}
+
+export function getFetchLimits(env: Env): FetchLimits {
+  const allowedOrigins = (env.ALLOWED_DOCUMENT_ORIGINS || '')
+    .split(',')
+    .map(origin => origin.trim())
+    .filter(Boolean)
+    .map(origin => new URL(origin).origin)
+
+  // The configured http store is always allowed
+  if (env.DOCUMENT_ORIGIN) {
+    allowedOrigins.push(new URL(env.DOCUMENT_ORIGIN).origin)
+  }
+
+  return {
+    maxBytes: Number(env.MAX_DOCUMENT_BYTES) || DEFAULT_MAX_DOCUMENT_BYTES,
+    timeoutMs: Number(env.DOCUMENT_FETCH_TIMEOUT_MS) || DEFAULT_FETCH_TIMEOUT_MS,
+    allowedOrigins,
+  }
+}
+
+// Static assets bundled with the worker (see [assets] in wrangler.toml)
+export class AssetSource implements DocumentSource {
+  readonly name = 'assets'
+
+  constructor(private assets: Fetcher) {}
+
+  async get(path: string): Promise<ArrayBuffer | null> {
+    // The host is ignored by the assets binding, only the path is matched
+    const response = await this.assets.fetch(`https://assets.local/${encodePath(path)}`)
+    if (!response.ok) {
+      console.error(`Asset not found: ${path} (${response.status})`)
+      return null
+    }
+    return response.arrayBuffer()
+  }
+}
+
+export class R2Source implements WritableDocumentSource {
+  readonly name = 'r2'
+
+  constructor(private bucket: R2Bucket, private prefix = '') {}
+
+  async get(path: string): Promise<ArrayBuffer | null> {
+    const object = await this.bucket.get(`${this.prefix}${path}`)
+    if (!object) {
+      console.error(`R2 object not found: ${this.prefix}${path}`)
+      return null
+    }
+    return object.arrayBuffer()
+  }
+
+  async put(path: string, body: ArrayBuffer | string, contentType: string): Promise<void> {
+    await this.bucket.put(`${this.prefix}${path}`, body, { httpMetadata: { contentType } })
+  }
+}
+
+export class KVSource implements WritableDocumentSource {
+  readonly name = 'kv'
+
+  constructor(private namespace: KVNamespace, private prefix = '') {}
+
+  async get(path: string): Promise<ArrayBuffer | null> {
+    const value = await this.namespace.get(`${this.prefix}${path}`, 'arrayBuffer')
+    if (!value) {
+      console.error(`KV key not found: ${this.prefix}${path}`)
+    }
+    return value
+  }
+
+  async put(path: string, body: ArrayBuffer | string): Promise<void> {
+    await this.namespace.put(`${this.prefix}${path}`, body)
+  }
+}
+
+export class HttpSource implements DocumentSource {
+  readonly name = 'http'
+
+  constructor(private origin: string, private limits: FetchLimits) {}
+
+  async get(path: string): Promise<ArrayBuffer | null> {
+    const url = new URL(encodePath(path), this.origin.endsWith('/') ? this.origin : `${this.origin}/`)
+    return fetchBytes(url.toString(), this.limits)
+  }
+}
+
+/**
+ * Pick the document store from configuration. Defaults to the static assets
+ * bundled with the worker.
+ */
+export function createDocumentSource(env: Env): DocumentSource {
+  const kind = (env.DOCUMENT_SOURCE || 'assets') as DocumentSourceKind
+  const prefix = env.DOCUMENT_PREFIX || ''
+
+  switch (kind) {
+    case 'assets':
+      if (!env.ASSETS) throw new Error('DOCUMENT_SOURCE is "assets" but no ASSETS binding is configured')
+      return new AssetSource(env.ASSETS)
+    case 'r2':
+      if (!env.DOCUMENTS_BUCKET) throw new Error('DOCUMENT_SOURCE is "r2" but no DOCUMENTS_BUCKET binding is configured')
+      return new R2Source(env.DOCUMENTS_BUCKET, prefix)
+    case 'kv':
+      if (!env.DOCUMENTS_KV) throw new Error('DOCUMENT_SOURCE is "kv" but no DOCUMENTS_KV binding is configured')
+      return new KVSource(env.DOCUMENTS_KV, prefix)
+    case 'http':
+      if (!env.DOCUMENT_ORIGIN) throw new Error('DOCUMENT_SOURCE is "http" but DOCUMENT_ORIGIN is not set')
+      return new HttpSource(env.DOCUMENT_ORIGIN, getFetchLimits(env))
+    default:
+      throw new Error(`Unknown DOCUMENT_SOURCE: ${kind}`)
+  }
+}
+
+/**
+ * Turn a catalog URL (`/PDFS/Some%20File.pdf`) into a store path (`PDFS/Some File.pdf`).
+ */
+export function toStorePath(url: string): string {
+  const cleanPath = url.startsWith('/') ? url.substring(1) : url
+  try {
+    return decodeURIComponent(cleanPath)
+  } catch {
+    return cleanPath
+  }
+}
+
+/**
+ * Download a document over http. Only allow-listed origins are fetched, and
+ * the download is abandoned once it exceeds the size or time limit.
+ */
+export async function fetchBytes(url: string, limits: FetchLimits): Promise<ArrayBuffer | null> {
+  const { origin, protocol } = new URL(url)
+  if (protocol !== 'https:' && protocol !== 'http:') {
+    throw new Error(`Unsupported URL scheme: ${protocol}`)
+  }
+  if (!limits.allowedOrigins.includes(origin)) {
+    throw new Error(`Origin is not in ALLOWED_DOCUMENT_ORIGINS: ${origin}`)
+  }
+
+  console.log(`Fetching PDF from: ${url}`)
+
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': 'PDF-Packet-Generator/1.0',
+    },
+    // Don't let a redirect take us off the allow-list
+    redirect: 'manual',
+    signal: AbortSignal.timeout(limits.timeoutMs),
+  })
+
+  if (!response.ok) {
+    console.error(`Failed to fetch PDF: ${response.status} ${response.statusText}`)
+    console.error(`URL attempted: ${url}`)
+    return null
+  }
+
+  const contentLength = Number(response.headers.get('Content-Length'))
+  if (contentLength > limits.maxBytes) {
+    throw new Error(`Document is ${contentLength} bytes, over the ${limits.maxBytes} byte limit`)
+  }
+
+  return readLimited(response, limits.maxBytes)
+}
+
+// Read a response body, giving up as soon as it passes maxBytes
+async function readLimited(response: Response, maxBytes: number): Promise<ArrayBuffer> {
+  if (!response.body) {
+    return new ArrayBuffer(0)
+  }
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    size += value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel()
+      throw new Error(`Document exceeds the ${maxBytes} byte limit`)
+    }
+    chunks.push(value)
+  }
+
+  const bytes = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return bytes.buffer
+}
+
+function encodePath(path: string): string {
+  return path.split('/').map(encodeURIComponent).join('/')
+}
@@ -0,0 +1,95 @@
+import type { Env, GeneratePacketRequest } from './types'
+
+/**
+ * Submittal sequence for one project number. The worker addresses an
+ * instance by project number, so successive packets for the same project
+ * get 001, 002, ... without coordinating with each other.
+ */
+export class SubmittalCounter implements DurableObject {
+  constructor(private state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { pathname } = new URL(request.url)
+
+    if (request.method === 'POST' && pathname === '/next') {
+      // A resubmittal names its sequence; later packets still continue after it
+      const { sequence } = await request.json<{ sequence?: number }>()
+      const last = (await this.state.storage.get<number>('sequence')) || 0
+      const assigned = sequence ?? last + 1
+
+      // Only a sequence the counter handed out can be given back
+      await this.state.storage.put({
+        sequence: Math.max(last, assigned),
+        previous: sequence === undefined ? last : null,
+      })
+      return Response.json({ sequence: assigned })
+    }
+
+    // A packet that failed or was cancelled gives its sequence back, unless a
+    // later packet has been numbered since
+    if (request.method === 'POST' && pathname === '/release') {
+      const { sequence } = await request.json<{ sequence: number }>()
+      const last = (await this.state.storage.get<number>('sequence')) || 0
+      const previous = await this.state.storage.get<number | null>('previous')
+
+      const released = last === sequence && typeof previous === 'number'
+      if (released) {
+        await this.state.storage.put({ sequence: previous, previous: null })
+      }
+      return Response.json({ released })
+    }
+
+    return Response.json({ error: 'Not found' }, { status: 404 })
+  }
+}
+
+function getCounter(env: Env, projectNumber: string): DurableObjectStub {
+  return env.SUBMITTAL_COUNTERS.get(env.SUBMITTAL_COUNTERS.idFromName(projectNumber.trim()))
+}
+
+/**
+ * Give a submittal-numbered request its sequence from the project's counter.
+ * Requests without submittal numbering are returned unchanged. When the
+ * packet isn't built, pass the numbered request to releaseSubmittalSequence.
+ */
+export async function assignSubmittalSequence(env: Env, packetRequest: GeneratePacketRequest): Promise<GeneratePacketRequest> {
+  const { submittal, projectData } = packetRequest
+  if (!submittal?.enabled || !projectData.projectNumber) {
+    return packetRequest
+  }
+
+  const response = await getCounter(env, projectData.projectNumber).fetch('https://submittal-counter/next', {
+    method: 'POST',
+    body: JSON.stringify({ sequence: submittal.sequence }),
+  })
+  if (!response.ok) {
+    throw new Error(`Submittal sequence could not be assigned (${response.status})`)
+  }
+
+  const { sequence } = await response.json<{ sequence: number }>()
+  return { ...packetRequest, submittal: { ...submittal, sequence } }
+}
+
+/**
+ * Give back the sequence of a numbered request whose packet failed or was
+ * cancelled, so the project's next packet reuses it. Only logs on errors,
+ * since it runs while another failure is being reported.
+ */
+export async function releaseSubmittalSequence(env: Env, numberedRequest: GeneratePacketRequest): Promise<void> {
+  const { submittal, projectData } = numberedRequest
+  if (!submittal?.enabled || !submittal.sequence || !projectData.projectNumber) {
+    return
+  }
+
+  try {
+    const response = await getCounter(env, projectData.projectNumber).fetch('https://submittal-counter/release', {
+      method: 'POST',
+      body: JSON.stringify({ sequence: submittal.sequence }),
+    })
+    if (!response.ok) {
+      throw new Error(`Counter responded ${response.status}`)
+    }
+  } catch (error) {
+    console.error(`Submittal sequence ${submittal.sequence} could not be released:`, error)
+  }
+}
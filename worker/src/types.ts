@@ -0,0 +1,47 @@
+import type { PacketFailure, PacketReport } from '../../shared/packet/types'
+
+export interface Env {
+  ENVIRONMENT?: string;
+  // Document store: 'assets' (default), 'r2', 'kv' or 'http'
+  DOCUMENT_SOURCE?: string;
+  // Key prefix for the r2 and kv stores
+  DOCUMENT_PREFIX?: string;
+  // Base URL for the http store
+  DOCUMENT_ORIGIN?: string;
+  // Comma-separated origins absolute catalog URLs may be fetched from
+  ALLOWED_DOCUMENT_ORIGINS?: string;
+  // Per-document download limits
+  MAX_DOCUMENT_BYTES?: string;
+  DOCUMENT_FETCH_TIMEOUT_MS?: string;
+  ASSETS?: Fetcher;
+  DOCUMENTS_BUCKET?: R2Bucket;
+  DOCUMENTS_KV?: KVNamespace;
+  PACKET_JOBS: DurableObjectNamespace;
+  // Submittal sequence counters, one per project number
+  SUBMITTAL_COUNTERS: DurableObjectNamespace;
+  // Bearer token for the /admin catalog endpoints; they are disabled without it
+  ADMIN_TOKEN?: string;
+}
+
+// Request shapes are defined once, with their validation, in the shared schema
+export type { ProjectData, DocumentRequest, PacketMode, GeneratePacketRequest } from '../../shared/schema'
+
+// The packet pipeline is shared with the app, which runs it when the worker can't be reached
+export type { DocumentReport, PacketReport, PacketFailure } from '../../shared/packet/types'
+
+export type PacketJobState = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+export interface PacketJobStatus {
+  id: string;
+  state: PacketJobState;
+  processed: number;
+  total: number;
+  currentDocument?: string;
+  error?: string;
+  filename?: string;
+  size?: number;
+  report?: PacketReport;
+  failures?: PacketFailure[];
+  createdAt: string;
+  updatedAt: string;
+}
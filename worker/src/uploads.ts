@@ -0,0 +1,80 @@
+import { PACKET_REQUEST_FIELD, uploadFieldName, type FieldErrors } from '../../shared/schema'
+import { detectKind, type PacketUploads } from '../../shared/packet/uploads'
+import type { GeneratePacketRequest } from './types'
+
+export type { PacketUploads } from '../../shared/packet/uploads'
+
+export interface PacketSubmission {
+  // Unvalidated request body
+  body: unknown;
+  uploads: PacketUploads;
+}
+
+/**
+ * Read a packet request sent either as plain JSON or as multipart form data
+ * carrying the JSON request plus uploaded files.
+ */
+export async function readPacketSubmission(request: Request): Promise<PacketSubmission> {
+  const contentType = request.headers.get('Content-Type') || ''
+  if (!contentType.startsWith('multipart/form-data')) {
+    return { body: await request.json(), uploads: new Map() }
+  }
+
+  const formData = await request.formData()
+  const requestField = formData.get(PACKET_REQUEST_FIELD)
+  if (typeof requestField !== 'string') {
+    throw new SyntaxError(`Multipart request is missing the "${PACKET_REQUEST_FIELD}" field`)
+  }
+
+  const uploads: PacketUploads = new Map()
+  const prefix = uploadFieldName('')
+  for (const [name, value] of formData.entries()) {
+    if (!name.startsWith(prefix) || typeof value === 'string') continue
+
+    const bytes = await value.arrayBuffer()
+    const kind = detectKind(bytes)
+    if (!kind) {
+      throw new SyntaxError(`${value.name} is not a PDF, PNG or JPEG file`)
+    }
+
+    const id = name.slice(prefix.length)
+    uploads.set(id, [...(uploads.get(id) || []), { name: value.name, kind, bytes }])
+  }
+
+  return { body: JSON.parse(requestField), uploads }
+}
+
+/**
+ * Field errors for upload documents without files, or whose files can't be
+ * merged. Catalog documents are checked against the catalog instead.
+ */
+export function validateUploads(packetRequest: GeneratePacketRequest, uploads: PacketUploads, maxBytes: number): FieldErrors {
+  const fieldErrors: FieldErrors = {}
+  packetRequest.documents.forEach((doc, index) => {
+    if (doc.source !== 'upload') return
+
+    const files = uploads.get(doc.id) || []
+    const size = files.reduce((sum, file) => sum + file.bytes.byteLength, 0)
+    const field = `documents.${index}.id`
+    if (files.length === 0) {
+      fieldErrors[field] = [`No file uploaded for ${doc.name}`]
+    } else if (size > maxBytes) {
+      fieldErrors[field] = [`${doc.name} is ${size} bytes, over the ${maxBytes} byte limit`]
+    } else if (files.some(file => file.kind === 'pdf') && files.length > 1) {
+      fieldErrors[field] = [`${doc.name} must be a single PDF or a set of images`]
+    }
+  })
+  return fieldErrors
+}
+
+// Re-encode a validated request for forwarding to a packet job
+export function toFormData(packetRequest: GeneratePacketRequest, uploads: PacketUploads): FormData {
+  const formData = new FormData()
+  formData.set(PACKET_REQUEST_FIELD, JSON.stringify(packetRequest))
+  uploads.forEach((files, id) => {
+    files.forEach(file => {
+      formData.append(uploadFieldName(id), new File([file.bytes], file.name))
+    })
+  })
+  return formData
+}